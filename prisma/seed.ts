@@ -156,7 +156,7 @@ async function main() {
         operatorId: operatorProfile.id,
         departureTime: new Date(tomorrow.setHours(8, 0, 0, 0)),
         arrivalTime: new Date(tomorrow.setHours(14, 0, 0, 0)),
-        price: 1200,
+        price: 120000, // Rs. 1200
         availableSeats: 40,
       },
     }),
@@ -167,7 +167,7 @@ async function main() {
         operatorId: operatorProfile.id,
         departureTime: new Date(tomorrow.setHours(10, 0, 0, 0)),
         arrivalTime: new Date(tomorrow.setHours(15, 0, 0, 0)),
-        price: 800,
+        price: 80000, // Rs. 800
         availableSeats: 40,
       },
     }),
@@ -0,0 +1,169 @@
+// Local stand-in for the payment gateways, for exercising the payment flow without
+// sandbox credentials. Point ESEWA_BASE_URL and KHALTI_BASE_URL at this server and
+// use the same merchant keys as the API.
+//
+//   npm run gateway:fake
+//
+// Posting the eSewa form marks the transaction COMPLETE and redirects to its
+// success_url with a signed `data` payload. Opening a Khalti payment_url marks the
+// pidx Completed and redirects to its return_url. Add `?outcome=failure` to either
+// URL to simulate a cancelled payment instead.
+
+import express from 'express';
+import config from '@/config';
+import {
+    ESEWA_SIGNED_FIELD_NAMES,
+    EsewaStatusResponse,
+    encodeEsewaCallback,
+    generateEsewaSignature,
+    verifyEsewaSignature,
+} from '@/utils/esewa';
+import { KhaltiLookupResponse } from '@/utils/khalti';
+
+const PORT = parseInt(process.env.FAKE_GATEWAY_PORT || '4010', 10);
+
+const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+
+// transaction_uuid -> transaction
+const esewaTransactions = new Map<string, EsewaStatusResponse>();
+
+// pidx -> payment
+const khaltiPayments = new Map<string, KhaltiLookupResponse & { return_url: string; purchase_order_id: string }>();
+
+app.post('/api/epay/main/v2/form', (req, res) => {
+    const fields = req.body as Record<string, string>;
+
+    if (!verifyEsewaSignature(fields, fields.signed_field_names || ESEWA_SIGNED_FIELD_NAMES, fields.signature, config.esewa.secretKey)) {
+        return res.status(400).json({ code: 1, error_message: 'Invalid payload signature.' });
+    }
+
+    if (req.query.outcome === 'failure') {
+        esewaTransactions.set(fields.transaction_uuid, {
+            product_code: fields.product_code,
+            transaction_uuid: fields.transaction_uuid,
+            total_amount: Number(fields.total_amount),
+            status: 'CANCELED',
+            ref_id: null,
+        });
+        return res.redirect(fields.failure_url);
+    }
+
+    const transactionCode = `FAKE${Date.now().toString(36).toUpperCase()}`;
+
+    esewaTransactions.set(fields.transaction_uuid, {
+        product_code: fields.product_code,
+        transaction_uuid: fields.transaction_uuid,
+        total_amount: Number(fields.total_amount),
+        status: 'COMPLETE',
+        ref_id: transactionCode,
+    });
+
+    const signedFieldNames = 'transaction_code,status,total_amount,transaction_uuid,product_code,signed_field_names';
+    const callback = {
+        transaction_code: transactionCode,
+        status: 'COMPLETE',
+        total_amount: fields.total_amount,
+        transaction_uuid: fields.transaction_uuid,
+        product_code: fields.product_code,
+        signed_field_names: signedFieldNames,
+    };
+
+    const data = encodeEsewaCallback({
+        ...callback,
+        signature: generateEsewaSignature(callback, signedFieldNames, config.esewa.secretKey),
+    });
+
+    return res.redirect(`${fields.success_url}?data=${encodeURIComponent(data)}`);
+});
+
+app.get('/api/epay/transaction/status/', (req, res) => {
+    const { product_code, total_amount, transaction_uuid } = req.query as Record<string, string>;
+    const transaction = esewaTransactions.get(transaction_uuid);
+
+    if (!transaction || transaction.product_code !== product_code) {
+        return res.json({
+            product_code,
+            transaction_uuid,
+            total_amount: Number(total_amount),
+            status: 'NOT_FOUND',
+            ref_id: null,
+        });
+    }
+
+    return res.json(transaction);
+});
+
+app.post('/api/v2/epayment/initiate/', (req, res) => {
+    if (req.header('Authorization') !== `Key ${config.khalti.secretKey}`) {
+        return res.status(401).json({ detail: 'Invalid token.', status_code: 401 });
+    }
+
+    const { return_url, amount, purchase_order_id } = req.body;
+    const pidx = `fake${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+    const expiresAt = new Date(Date.now() + 30 * 60 * 1000);
+
+    khaltiPayments.set(pidx, {
+        pidx,
+        total_amount: amount,
+        status: 'Initiated',
+        transaction_id: null,
+        fee: 0,
+        refunded: false,
+        return_url,
+        purchase_order_id,
+    });
+
+    return res.json({
+        pidx,
+        payment_url: `http://localhost:${PORT}/khalti/pay/${pidx}`,
+        expires_at: expiresAt.toISOString(),
+        expires_in: 1800,
+    });
+});
+
+app.get('/khalti/pay/:pidx', (req, res) => {
+    const payment = khaltiPayments.get(req.params.pidx);
+
+    if (!payment) {
+        return res.status(404).send('Unknown pidx');
+    }
+
+    if (req.query.outcome === 'failure') {
+        payment.status = 'User canceled';
+    } else {
+        payment.status = 'Completed';
+        payment.transaction_id = `FAKE${Date.now().toString(36).toUpperCase()}`;
+    }
+
+    const params = new URLSearchParams({
+        pidx: payment.pidx,
+        transaction_id: payment.transaction_id || '',
+        amount: payment.total_amount.toString(),
+        total_amount: payment.total_amount.toString(),
+        status: payment.status,
+        purchase_order_id: payment.purchase_order_id,
+    });
+
+    return res.redirect(`${payment.return_url}?${params.toString()}`);
+});
+
+app.post('/api/v2/epayment/lookup/', (req, res) => {
+    if (req.header('Authorization') !== `Key ${config.khalti.secretKey}`) {
+        return res.status(401).json({ detail: 'Invalid token.', status_code: 401 });
+    }
+
+    const payment = khaltiPayments.get(req.body.pidx);
+
+    if (!payment) {
+        return res.status(404).json({ detail: 'Not found.', error_key: 'validation_error' });
+    }
+
+    const { return_url, purchase_order_id, ...lookup } = payment;
+    return res.json(lookup);
+});
+
+app.listen(PORT, () => {
+    console.log(`🧪 Fake payment gateway listening on http://localhost:${PORT}`);
+});
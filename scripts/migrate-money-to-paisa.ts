@@ -0,0 +1,89 @@
+// One-off upgrade for databases created before amounts were stored as integer
+// paisa. Run it once against the existing database BEFORE `prisma db push` or
+// `prisma migrate`:
+//
+//   npm run prisma:migrate-paisa
+//
+// Every rupee amount still stored as a float is converted in place to paisa
+// (x 100, rounded). Existing bookings get the per-seat `baseFare` their total
+// was charged at, rounded up to the paisa, with the few paisa that leaves over
+// the total as `discountAmount`. They were sold before VAT and service fees
+// were itemised, so those stay 0 and the breakdown still adds up to the total
+// paid. Columns that are already integers are left alone, so running it twice
+// is harmless.
+
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// table -> rupee columns
+const MONEY_COLUMNS: Record<string, string[]> = {
+    trips: ['price', 'originalPrice'],
+    bookings: ['totalAmount'],
+    payments: ['amount'],
+    refunds: ['amount', 'cancellationFee'],
+    reconciliation_items: ['expectedAmount', 'gatewayAmount'],
+    settlements: ['grossAmount', 'refundAmount', 'commissionAmount', 'cashCollected', 'netPayable'],
+    ledger_entries: ['debit', 'credit'],
+};
+
+async function columnType(tx: Prisma.TransactionClient, table: string, column: string): Promise<string | null> {
+    const rows = await tx.$queryRaw<{ data_type: string }[]>`
+        SELECT data_type FROM information_schema.columns
+        WHERE table_schema = current_schema() AND table_name = ${table} AND column_name = ${column}
+    `;
+
+    return rows.length > 0 ? rows[0].data_type : null;
+}
+
+async function main() {
+    console.log('💱 Converting stored amounts to paisa...');
+
+    // All or nothing: a failure part way leaves the database as it was
+    await prisma.$transaction(async (tx) => {
+        for (const [table, columns] of Object.entries(MONEY_COLUMNS)) {
+            for (const column of columns) {
+                const type = await columnType(tx, table, column);
+
+                if (type !== 'double precision') {
+                    console.log(`  ${table}.${column}: ${type ? 'already converted' : 'not present'}, skipped`);
+                    continue;
+                }
+
+                await tx.$executeRawUnsafe(
+                    `ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE INTEGER USING ROUND("${column}" * 100)::INTEGER`
+                );
+                console.log(`  ${table}.${column}: converted`);
+            }
+        }
+
+        const hasBookings = (await columnType(tx, 'bookings', 'totalAmount')) !== null;
+
+        if (hasBookings && !(await columnType(tx, 'bookings', 'baseFare'))) {
+            await tx.$executeRawUnsafe('ALTER TABLE "bookings" ADD COLUMN "baseFare" INTEGER');
+            await tx.$executeRawUnsafe(
+                'ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "discountAmount" INTEGER NOT NULL DEFAULT 0'
+            );
+            // Rs 10.01 over 3 seats is 334 paisa a seat less 1 paisa, not 334 x 3 = 1002
+            await tx.$executeRawUnsafe(
+                'UPDATE "bookings" SET "baseFare" = CEIL("totalAmount"::NUMERIC / GREATEST(CARDINALITY("seatNumbers"), 1))'
+            );
+            await tx.$executeRawUnsafe(
+                'UPDATE "bookings" SET "discountAmount" = "baseFare" * GREATEST(CARDINALITY("seatNumbers"), 1) - "totalAmount"'
+            );
+            await tx.$executeRawUnsafe('ALTER TABLE "bookings" ALTER COLUMN "baseFare" SET NOT NULL');
+            console.log('  bookings.baseFare, bookings.discountAmount: backfilled from totalAmount');
+        }
+    }, { timeout: 10 * 60 * 1000 });
+
+    console.log('✅ Done. Now run prisma db push (or migrate) to apply the rest of the schema.');
+}
+
+main()
+    .catch((error) => {
+        console.error('❌ Conversion failed:', error);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -0,0 +1,81 @@
+import { LoyaltyService } from '@/services/loyalty.service';
+import { LoyaltyTier, Prisma } from '@prisma/client';
+
+jest.mock('@/config/database', () => ({}));
+
+const loyaltyService = new LoyaltyService();
+
+// Four seats at Rs 1000 less Rs 400 off over 200 km: Rs 3600 of fare
+const booking = (terms: { noShows?: number; role?: string } = {}) => ({
+  id: 'booking-1',
+  bookingReference: 'BK-0001',
+  userId: 'user-1',
+  baseFare: 100000,
+  seatNumbers: [1, 2, 3, 4],
+  discountAmount: 40000,
+  user: { role: terms.role || 'CUSTOMER' },
+  trip: { route: { distance: 200 } },
+  boardings: Array.from({ length: terms.noShows || 0 }, (_, i) => ({ id: `boarding-${i}` })),
+});
+
+const clientFor = (found: ReturnType<typeof booking>, tier: LoyaltyTier = 'MEMBER', earned: object | null = null) => ({
+  booking: {
+    findUniqueOrThrow: jest.fn().mockResolvedValue(found),
+  },
+  loyaltyAccount: {
+    findUnique: jest.fn().mockResolvedValue({ tier }),
+    upsert: jest.fn().mockResolvedValue({ id: 'account-1', balance: 0, lifetimePoints: 0, tier: 'MEMBER' }),
+    update: jest.fn(),
+  },
+  loyaltyTransaction: {
+    findFirst: jest.fn().mockResolvedValue(earned),
+    create: jest.fn(async ({ data }) => data),
+  },
+});
+
+const earn = async (client: ReturnType<typeof clientFor>) =>
+  await loyaltyService.earnForBooking(client as unknown as Prisma.TransactionClient, 'booking-1');
+
+describe('LoyaltyService.earnForBooking', () => {
+  it('earns on the fare before tax and on the distance travelled per seat', async () => {
+    // 36 x 5 for the fare plus 2 x 4 seats x 10 for the distance
+    expect(await earn(clientFor(booking()))).toMatchObject({ type: 'EARN', points: 260 });
+  });
+
+  it('earns nothing for passengers who never boarded', async () => {
+    // Three of four seats: 27 x 5 plus 2 x 3 x 10
+    expect(await earn(clientFor(booking({ noShows: 1 })))).toMatchObject({ points: 195 });
+  });
+
+  it('boosts earning by the customer\'s tier', async () => {
+    expect(await earn(clientFor(booking(), 'SILVER'))).toMatchObject({ points: 325 });
+    expect(await earn(clientFor(booking(), 'GOLD'))).toMatchObject({ points: 390 });
+  });
+
+  it('rounds boosted points down', async () => {
+    // 195 x 1.25 = 243.75
+    expect(await earn(clientFor(booking({ noShows: 1 }), 'SILVER'))).toMatchObject({ points: 243 });
+  });
+
+  it('awards nothing when no passenger boarded', async () => {
+    const client = clientFor(booking({ noShows: 4 }));
+
+    expect(await earn(client)).toBeNull();
+    expect(client.loyaltyAccount.upsert).not.toHaveBeenCalled();
+  });
+
+  it('awards nothing on walk-in sales booked under an operator', async () => {
+    const client = clientFor(booking({ role: 'OPERATOR' }));
+
+    expect(await earn(client)).toBeNull();
+    expect(client.loyaltyAccount.upsert).not.toHaveBeenCalled();
+  });
+
+  it('awards a booking once', async () => {
+    const earned = { id: 'earned-1', type: 'EARN', points: 260 };
+    const client = clientFor(booking(), 'MEMBER', earned);
+
+    expect(await earn(client)).toBe(earned);
+    expect(client.booking.findUniqueOrThrow).not.toHaveBeenCalled();
+  });
+});
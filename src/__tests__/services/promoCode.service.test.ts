@@ -0,0 +1,73 @@
+import { PromoCodeService } from '@/services/promoCode.service';
+import { Prisma, PromoCode } from '@prisma/client';
+
+jest.mock('@/config/database', () => ({}));
+
+const promoCodeService = new PromoCodeService();
+
+const trip = { id: 'trip-1', routeId: 'route-1', operatorId: 'operator-1', busId: 'bus-1', price: 79999 };
+
+const promoCode = (terms: Partial<PromoCode>): PromoCode => ({
+  id: 'promo-1',
+  code: 'DASHAIN',
+  description: null,
+  discountType: 'PERCENTAGE',
+  discountValue: 10,
+  maxDiscount: null,
+  minSeats: 1,
+  usageLimit: null,
+  perUserLimit: null,
+  validFrom: new Date(Date.now() - 86400000),
+  validUntil: new Date(Date.now() + 86400000),
+  isActive: true,
+  routeId: null,
+  operatorId: null,
+  busType: null,
+  createdById: 'admin-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...terms,
+} as PromoCode);
+
+// A client that only knows the one promo code
+const clientWith = (code: PromoCode) => ({
+  promoCode: {
+    findUnique: jest.fn().mockResolvedValue(code),
+  },
+} as unknown as Prisma.TransactionClient);
+
+const discountFor = async (terms: Partial<PromoCode>, seatCount: number) => {
+  const { discountAmount } = await promoCodeService.applyPromoCode(
+    clientWith(promoCode(terms)),
+    'dashain',
+    'user-1',
+    trip,
+    seatCount
+  );
+
+  return discountAmount;
+};
+
+describe('PromoCodeService discounts', () => {
+  it('takes a percentage of the seat total, rounded to the paisa', async () => {
+    expect(await discountFor({ discountType: 'PERCENTAGE', discountValue: 10 }, 2)).toBe(16000);
+    expect(await discountFor({ discountType: 'PERCENTAGE', discountValue: 3 }, 1)).toBe(2400);
+  });
+
+  it('caps a percentage at maxDiscount', async () => {
+    expect(await discountFor({ discountType: 'PERCENTAGE', discountValue: 50, maxDiscount: 25000 }, 2)).toBe(25000);
+  });
+
+  it('leaves a percentage under the cap alone', async () => {
+    expect(await discountFor({ discountType: 'PERCENTAGE', discountValue: 10, maxDiscount: 25000 }, 2)).toBe(16000);
+  });
+
+  it('takes a flat amount regardless of seats', async () => {
+    expect(await discountFor({ discountType: 'FLAT', discountValue: 15000 }, 3)).toBe(15000);
+  });
+
+  it('never discounts more than the seats cost', async () => {
+    expect(await discountFor({ discountType: 'FLAT', discountValue: 100000 }, 1)).toBe(79999);
+    expect(await discountFor({ discountType: 'PERCENTAGE', discountValue: 100 }, 2)).toBe(159998);
+  });
+});
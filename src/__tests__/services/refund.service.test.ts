@@ -0,0 +1,150 @@
+import prisma from '@/config/database';
+import { paymentProviders } from '@/providers';
+import { RefundService } from '@/services/refund.service';
+import { ledgerService } from '@/services/ledger.service';
+import { bookingBalanceService } from '@/services/bookingBalance.service';
+import { Prisma } from '@prisma/client';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {
+    refund: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/ledger.service', () => ({
+  ledgerService: {
+    postRefundRejected: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as unknown as {
+  refund: Record<'findUnique' | 'updateMany' | 'update', jest.Mock>;
+  $transaction: jest.Mock;
+};
+
+const refundService = new RefundService();
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2026-01-10T06:00:00Z');
+const hoursAhead = (hours: number) => new Date(now.getTime() + hours * HOUR);
+
+// 100% more than a day out, 50% within a day, nothing within two hours
+const tiers = [
+  { hoursBeforeDeparture: 2, refundPercent: 50 },
+  { hoursBeforeDeparture: 24, refundPercent: 100 },
+];
+
+describe('RefundService.quoteRefund', () => {
+  it('applies the tier with the longest notice the customer meets', () => {
+    expect(refundService.quoteRefund(tiers, hoursAhead(48), 150000, now)).toEqual({
+      refundPercent: 100,
+      refundAmount: 150000,
+      cancellationFee: 0,
+    });
+
+    expect(refundService.quoteRefund(tiers, hoursAhead(5), 150000, now)).toEqual({
+      refundPercent: 50,
+      refundAmount: 75000,
+      cancellationFee: 75000,
+    });
+  });
+
+  it('counts a tier boundary as met', () => {
+    expect(refundService.quoteRefund(tiers, hoursAhead(24), 150000, now).refundPercent).toBe(100);
+    expect(refundService.quoteRefund(tiers, hoursAhead(2), 150000, now).refundPercent).toBe(50);
+  });
+
+  it('refunds nothing once no tier applies', () => {
+    expect(refundService.quoteRefund(tiers, hoursAhead(1), 150000, now)).toEqual({
+      refundPercent: 0,
+      refundAmount: 0,
+      cancellationFee: 150000,
+    });
+  });
+
+  it('refunds nothing without a policy', () => {
+    expect(refundService.quoteRefund([], hoursAhead(100), 150000, now).refundAmount).toBe(0);
+  });
+
+  it('rounds to the paisa and keeps refund plus fee equal to the amount', () => {
+    const quote = refundService.quoteRefund([{ hoursBeforeDeparture: 0, refundPercent: 33 }], hoursAhead(1), 10001, now);
+
+    expect(quote.refundAmount).toBe(3300);
+    expect(quote.refundAmount + quote.cancellationFee).toBe(10001);
+  });
+});
+
+describe('RefundService failed payouts', () => {
+  const refund = {
+    id: 'refund-1',
+    paymentId: 'payment-1',
+    bookingId: 'booking-1',
+    amount: 60000,
+    cancellationFee: 0,
+    reason: 'Booking cancelled',
+    status: 'REQUESTED',
+    destination: 'ORIGINAL_METHOD',
+    payment: { id: 'payment-1', method: 'KHALTI', transactionId: 'txn-1' },
+    booking: { trip: { operator: { userId: 'operator-user' } } },
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('is marked FAILED when the gateway refund throws', async () => {
+    mockPrisma.refund.findUnique.mockResolvedValue(refund);
+    mockPrisma.refund.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.refund.update.mockImplementation(async ({ data }) => ({ ...refund, ...data }));
+    jest.spyOn(paymentProviders.get('KHALTI'), 'refund').mockRejectedValue(new Error('Khalti is unreachable'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await refundService.approveRefund(refund.id, 'ADMIN', 'admin-user');
+
+    expect(result.status).toBe('FAILED');
+    expect(ledgerService.postRefundRejected).not.toHaveBeenCalled();
+  });
+
+  it('stays owed, so the payment cannot be refunded again', async () => {
+    const refunds = [{ amount: 60000, cancellationFee: 0, status: 'FAILED' }];
+    const tx = {
+      payment: {
+        findMany: jest.fn(async (args: { include: { refunds: { where: { status: { in: string[] } } } } }) => [{
+          id: 'payment-1',
+          amount: 100000,
+          refunds: refunds.filter(r => args.include.refunds.where.status.in.includes(r.status)),
+        }]),
+      },
+    } as unknown as Prisma.TransactionClient;
+    jest.spyOn(bookingBalanceService, 'getPaymentGroup').mockResolvedValue({ bookingIds: ['booking-1'], totalAmount: 0 });
+
+    const [payment] = await refundService.getRefundablePayments(tx, 'booking-1');
+
+    expect(payment.amount).toBe(40000);
+  });
+
+  it('can be rejected, giving the amount back to the operator', async () => {
+    mockPrisma.refund.findUnique.mockResolvedValue({ ...refund, status: 'FAILED' });
+    const tx = {
+      refund: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUniqueOrThrow: jest.fn().mockResolvedValue({ ...refund, status: 'REJECTED' }),
+      },
+    };
+    mockPrisma.$transaction.mockImplementation(async (fn: (client: typeof tx) => unknown) => fn(tx));
+
+    await refundService.rejectRefund(refund.id, 'Paid out by bank transfer instead', 'ADMIN', 'admin-user');
+
+    expect(tx.refund.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: refund.id, status: { in: ['REQUESTED', 'FAILED'] } },
+    }));
+    expect(ledgerService.postRefundRejected).toHaveBeenCalledWith(tx, refund.id);
+  });
+});
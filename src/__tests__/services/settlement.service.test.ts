@@ -0,0 +1,76 @@
+import { SettlementService } from '@/services/settlement.service';
+
+jest.mock('@/config/database', () => ({}));
+
+const settlementService = new SettlementService();
+
+// Rs 1000 of fare with no service fee and 13% VAT
+const booking = { serviceFee: 0, vatAmount: 13000, totalAmount: 113000 };
+
+const payment = (amount: number, method = 'KHALTI') => ({ amount, method, booking });
+
+const refund = (amount: number, method = 'KHALTI', destination = 'ORIGINAL_METHOD') => ({
+  amount,
+  destination,
+  payment: { method },
+  booking,
+});
+
+describe('SettlementService.summarize', () => {
+  it('pays the operator the fare less commission', () => {
+    const totals = settlementService.summarize([payment(113000), payment(113000)], [], 10);
+
+    expect(totals).toEqual({
+      grossAmount: 200000,
+      refundAmount: 0,
+      commissionRate: 10,
+      commissionAmount: 20000,
+      cashCollected: 0,
+      netPayable: 180000,
+      paymentCount: 2,
+      refundCount: 0,
+    });
+  });
+
+  it('leaves the service fee and VAT out of the gross and the commission', () => {
+    const withFee = { serviceFee: 4000, vatAmount: 13520, totalAmount: 117520 };
+    const totals = settlementService.summarize([{ amount: 117520, method: 'ESEWA', booking: withFee }], [], 10);
+
+    expect(totals.grossAmount).toBe(100000);
+    expect(totals.commissionAmount).toBe(10000);
+    expect(totals.netPayable).toBe(90000);
+  });
+
+  it('charges commission on payments net of refunds', () => {
+    const totals = settlementService.summarize([payment(113000)], [refund(56500)], 10);
+
+    expect(totals.refundAmount).toBe(50000);
+    expect(totals.commissionAmount).toBe(5000);
+    expect(totals.netPayable).toBe(100000 - 50000 - 5000);
+  });
+
+  it('offsets counter cash, less cash refunded at the counter', () => {
+    const totals = settlementService.summarize(
+      [payment(113000), payment(113000, 'CASH')],
+      [refund(56500, 'CASH')],
+      10
+    );
+
+    expect(totals.cashCollected).toBe(113000 - 56500);
+    expect(totals.netPayable).toBe(200000 - 50000 - 15000 - 56500);
+  });
+
+  it('does not offset cash refunded as wallet credit', () => {
+    const totals = settlementService.summarize([payment(113000, 'CASH')], [refund(56500, 'CASH', 'WALLET')], 10);
+
+    expect(totals.cashCollected).toBe(113000);
+  });
+
+  it('goes negative when the operator kept more cash than they are owed', () => {
+    const totals = settlementService.summarize([payment(113000, 'CASH')], [], 10);
+
+    // The operator holds the VAT and the platform's commission
+    expect(totals.netPayable).toBe(100000 - 10000 - 113000);
+    expect(totals.netPayable).toBeLessThan(0);
+  });
+});
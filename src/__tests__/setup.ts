@@ -0,0 +1,11 @@
+import crypto from 'crypto';
+
+// Tests run against fixed settings rather than whatever the local .env holds
+process.env.VAT_RATE = '13';
+process.env.SERVICE_FEE_PER_SEAT_PAISA = '2000';
+process.env.LOYALTY_POINTS_PER_100_RUPEES = '5';
+process.env.LOYALTY_POINTS_PER_100_KM = '10';
+process.env.TICKET_SIGNING_PRIVATE_KEY = crypto
+  .generateKeyPairSync('ed25519')
+  .privateKey.export({ type: 'pkcs8', format: 'pem' })
+  .toString();
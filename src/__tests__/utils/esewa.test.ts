@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import {
+  ESEWA_SIGNED_FIELD_NAMES,
+  decodeEsewaCallback,
+  encodeEsewaCallback,
+  generateEsewaSignature,
+  verifyEsewaSignature,
+  EsewaCallbackPayload,
+} from '@/utils/esewa';
+import { BadRequestError } from '@/utils/errors';
+
+const SECRET = 'test-esewa-secret';
+
+const fields = {
+  total_amount: '100',
+  transaction_uuid: '11-201-13',
+  product_code: 'EPAYTEST',
+};
+
+describe('generateEsewaSignature', () => {
+  it('signs the named fields as "name=value" pairs in order', () => {
+    const message = 'total_amount=100,transaction_uuid=11-201-13,product_code=EPAYTEST';
+    const expected = crypto.createHmac('sha256', SECRET).update(message).digest('base64');
+
+    expect(generateEsewaSignature(fields, ESEWA_SIGNED_FIELD_NAMES, SECRET)).toBe(expected);
+  });
+
+  it('signs a missing field as empty', () => {
+    const withoutCode = { total_amount: '100', transaction_uuid: '11-201-13' };
+    const message = 'total_amount=100,transaction_uuid=11-201-13,product_code=';
+
+    expect(generateEsewaSignature(withoutCode, ESEWA_SIGNED_FIELD_NAMES, SECRET))
+      .toBe(crypto.createHmac('sha256', SECRET).update(message).digest('base64'));
+  });
+});
+
+describe('verifyEsewaSignature', () => {
+  const signature = generateEsewaSignature(fields, ESEWA_SIGNED_FIELD_NAMES, SECRET);
+
+  it('accepts a signature made with the same secret', () => {
+    expect(verifyEsewaSignature(fields, ESEWA_SIGNED_FIELD_NAMES, signature, SECRET)).toBe(true);
+  });
+
+  it('rejects a tampered amount', () => {
+    expect(verifyEsewaSignature({ ...fields, total_amount: '1' }, ESEWA_SIGNED_FIELD_NAMES, signature, SECRET))
+      .toBe(false);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyEsewaSignature(fields, ESEWA_SIGNED_FIELD_NAMES, signature, 'another-secret')).toBe(false);
+  });
+
+  it('rejects a missing signature', () => {
+    expect(verifyEsewaSignature(fields, ESEWA_SIGNED_FIELD_NAMES, '', SECRET)).toBe(false);
+  });
+});
+
+describe('decodeEsewaCallback', () => {
+  const payload: EsewaCallbackPayload = {
+    transaction_code: '000AWEO',
+    status: 'COMPLETE',
+    ...fields,
+    signed_field_names: 'transaction_code,status,total_amount,transaction_uuid,product_code,signed_field_names',
+    signature: 'signature',
+  };
+
+  it('round-trips an encoded payload', () => {
+    expect(decodeEsewaCallback(encodeEsewaCallback(payload))).toEqual(payload);
+  });
+
+  it('accepts total_amount sent as a number', () => {
+    const numeric = { ...payload, total_amount: 100 };
+
+    expect(decodeEsewaCallback(encodeEsewaCallback(numeric))).toEqual(numeric);
+  });
+
+  it.each([
+    ['not base64 JSON', 'not-json'],
+    ['JSON null', Buffer.from('null').toString('base64')],
+    ['a JSON string', Buffer.from('"COMPLETE"').toString('base64')],
+    ['a JSON array', Buffer.from('[]').toString('base64')],
+    ['a payload without signed_field_names', encodeEsewaCallback({ ...payload, signed_field_names: undefined as unknown as string })],
+    ['a non-string signature', encodeEsewaCallback({ ...payload, signature: 42 as unknown as string })],
+    ['a payload without transaction_uuid', encodeEsewaCallback({ ...payload, transaction_uuid: undefined as unknown as string })],
+    ['a non-scalar total_amount', encodeEsewaCallback({ ...payload, total_amount: {} as unknown as string })],
+  ])('rejects %s', (_, encoded) => {
+    expect(() => decodeEsewaCallback(encoded)).toThrow(BadRequestError);
+  });
+});
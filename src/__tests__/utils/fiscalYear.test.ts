@@ -0,0 +1,33 @@
+import { getFiscalYear } from '@/utils/fiscalYear';
+
+describe('getFiscalYear', () => {
+  it('numbers the fiscal year by its Bikram Sambat years', () => {
+    expect(getFiscalYear(new Date('2026-01-15T00:00:00Z')).label).toBe('2082/83');
+    expect(getFiscalYear(new Date('2026-10-19T00:00:00Z')).label).toBe('2083/84');
+  });
+
+  it('turns over at midnight Nepal time on 1 Shrawan', () => {
+    // 1 Shrawan 2083 is 17 July 2026; Nepal midnight is 18:15 UTC the day before
+    expect(getFiscalYear(new Date('2026-07-16T18:14:59Z')).label).toBe('2082/83');
+    expect(getFiscalYear(new Date('2026-07-16T18:15:00Z')).label).toBe('2083/84');
+  });
+
+  it('follows Shrawan 1 moving between 16 and 17 July', () => {
+    // 1 Shrawan 2081 was 16 July 2024
+    expect(getFiscalYear(new Date('2024-07-15T18:15:00Z')).label).toBe('2081/82');
+    expect(getFiscalYear(new Date('2024-07-15T18:14:59Z')).label).toBe('2080/81');
+  });
+
+  it('returns the bounds of the year, end exclusive', () => {
+    const fiscalYear = getFiscalYear(new Date('2026-01-15T00:00:00Z'));
+
+    expect(fiscalYear.start).toEqual(new Date('2025-07-16T18:15:00Z'));
+    expect(fiscalYear.end).toEqual(new Date('2026-07-16T18:15:00Z'));
+    expect(getFiscalYear(fiscalYear.end).start).toEqual(fiscalYear.end);
+  });
+
+  it('pads the second year across a century', () => {
+    // 2099/00 begins in July 2042, past the published table, so it falls back to 16 July
+    expect(getFiscalYear(new Date('2042-08-01T00:00:00Z')).label).toBe('2099/00');
+  });
+});
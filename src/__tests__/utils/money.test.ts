@@ -0,0 +1,93 @@
+import { calculateFare, formatRupees, percentOf, splitAmount, toPaisa, toRupees } from '@/utils/money';
+
+// The setup file fixes VAT at 13% and the service fee at Rs 20 a seat
+
+describe('money conversions', () => {
+  it('converts rupees to whole paisa and back', () => {
+    expect(toPaisa(1250.5)).toBe(125050);
+    expect(toPaisa(0.1 + 0.2)).toBe(30);
+    expect(toRupees(125050)).toBe(1250.5);
+    expect(formatRupees(125050)).toBe('1250.50');
+  });
+});
+
+describe('percentOf', () => {
+  it('rounds to the nearest paisa', () => {
+    expect(percentOf(100000, 13)).toBe(13000);
+    expect(percentOf(999, 13)).toBe(130);
+    expect(percentOf(10001, 33)).toBe(3300);
+  });
+
+  it('handles zero and fractional rates', () => {
+    expect(percentOf(0, 13)).toBe(0);
+    expect(percentOf(100000, 0)).toBe(0);
+    expect(percentOf(100000, 2.5)).toBe(2500);
+  });
+});
+
+describe('calculateFare', () => {
+  it('adds the service fee and VAT on the taxable amount', () => {
+    expect(calculateFare(150000, 2)).toEqual({
+      baseFare: 150000,
+      seatCount: 2,
+      discountAmount: 0,
+      serviceFee: 4000,
+      vatAmount: 39520,
+      totalAmount: 343520,
+    });
+  });
+
+  it('takes the discount off before VAT', () => {
+    const fare = calculateFare(150000, 2, 30000);
+
+    expect(fare.discountAmount).toBe(30000);
+    expect(fare.vatAmount).toBe(percentOf(300000 - 30000 + 4000, 13));
+    expect(fare.totalAmount).toBe(300000 - 30000 + 4000 + fare.vatAmount);
+  });
+
+  it('never discounts more than the seats cost', () => {
+    const fare = calculateFare(50000, 1, 80000);
+
+    expect(fare.discountAmount).toBe(50000);
+    expect(fare.totalAmount).toBe(2000 + percentOf(2000, 13));
+  });
+
+  it('keeps the breakdown adding up to the total', () => {
+    for (const [baseFare, seats, discount] of [[99999, 3, 1234], [100, 1, 0], [123456, 7, 99999]]) {
+      const fare = calculateFare(baseFare, seats, discount);
+
+      expect(fare.baseFare * fare.seatCount - fare.discountAmount + fare.serviceFee + fare.vatAmount)
+        .toBe(fare.totalAmount);
+      expect(Number.isInteger(fare.totalAmount)).toBe(true);
+    }
+  });
+});
+
+describe('splitAmount', () => {
+  it('splits the full total into the booking\'s own fare, fee and VAT', () => {
+    const fare = calculateFare(150000, 2);
+
+    expect(splitAmount(fare.totalAmount, fare)).toEqual({
+      fareAmount: 300000,
+      serviceFee: fare.serviceFee,
+      vatAmount: fare.vatAmount,
+    });
+  });
+
+  it('splits part of the total in the same proportions', () => {
+    const fare = calculateFare(150000, 2);
+    const split = splitAmount(Math.round(fare.totalAmount / 2), fare);
+
+    expect(split.serviceFee).toBe(2000);
+    expect(split.vatAmount).toBe(Math.round(fare.vatAmount / 2));
+    expect(split.fareAmount + split.serviceFee + split.vatAmount).toBe(Math.round(fare.totalAmount / 2));
+  });
+
+  it('leaves everything to the fare when the booking cost nothing', () => {
+    expect(splitAmount(5000, { serviceFee: 0, vatAmount: 0, totalAmount: 0 })).toEqual({
+      fareAmount: 5000,
+      serviceFee: 0,
+      vatAmount: 0,
+    });
+  });
+});
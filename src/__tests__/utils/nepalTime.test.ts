@@ -0,0 +1,20 @@
+import { getNepalDay } from '@/utils/nepalTime';
+
+describe('getNepalDay', () => {
+  it('spans midnight to midnight Nepal time, end exclusive', () => {
+    expect(getNepalDay(new Date('2026-01-10T06:00:00Z'))).toEqual({
+      start: new Date('2026-01-09T18:15:00Z'),
+      end: new Date('2026-01-10T18:15:00Z'),
+    });
+  });
+
+  it('puts a UTC evening on the next Nepal day', () => {
+    // 18:15 UTC is already midnight in Kathmandu
+    expect(getNepalDay(new Date('2026-01-10T18:15:00Z')).start).toEqual(new Date('2026-01-10T18:15:00Z'));
+    expect(getNepalDay(new Date('2026-01-10T18:14:59Z')).start).toEqual(new Date('2026-01-09T18:15:00Z'));
+  });
+
+  it('reads a plain date as that calendar day in Nepal', () => {
+    expect(getNepalDay(new Date('2026-01-10')).start).toEqual(new Date('2026-01-09T18:15:00Z'));
+  });
+});
@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+import { getTicketPublicKey, signTicket, verifyTicketCode, TicketPayload } from '@/utils/ticketSignature';
+import { BadRequestError } from '@/utils/errors';
+
+const payload: TicketPayload = {
+  v: 1,
+  ref: 'BK-20260110-ABCD',
+  bid: 'booking-id',
+  tid: 'trip-id',
+  dep: '2026-01-10T06:00:00.000Z',
+  seats: ['A1', 'A2'],
+  pax: ['Sita Sharma', 'Ram Thapa'],
+  iat: 1767999600,
+};
+
+describe('signTicket / verifyTicketCode', () => {
+  it('round-trips a signed ticket', () => {
+    expect(verifyTicketCode(signTicket(payload))).toEqual(payload);
+  });
+
+  it('ignores whitespace around a scanned code', () => {
+    expect(verifyTicketCode(`  ${signTicket(payload)}\n`)).toEqual(payload);
+  });
+
+  it('can be verified offline with the published public key', () => {
+    const [body, signature] = signTicket(payload).split('.');
+
+    expect(crypto.verify(
+      null,
+      Buffer.from(body),
+      crypto.createPublicKey(getTicketPublicKey()),
+      Buffer.from(signature, 'base64url')
+    )).toBe(true);
+  });
+
+  it('rejects a ticket whose payload was altered', () => {
+    const [, signature] = signTicket(payload).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...payload, seats: ['A1', 'A2', 'A3'] })).toString('base64url');
+
+    expect(() => verifyTicketCode(`${forged}.${signature}`)).toThrow('Invalid ticket signature');
+  });
+
+  it('rejects a ticket signed with another key', () => {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const otherKey = crypto.generateKeyPairSync('ed25519').privateKey;
+    const signature = crypto.sign(null, Buffer.from(body), otherKey).toString('base64url');
+
+    expect(() => verifyTicketCode(`${body}.${signature}`)).toThrow(BadRequestError);
+  });
+
+  it.each([
+    ['an empty code', ''],
+    ['a code without a signature', 'payload'],
+    ['a code with extra parts', 'a.b.c'],
+  ])('rejects %s as malformed', (_, code) => {
+    expect(() => verifyTicketCode(code)).toThrow('Malformed ticket code');
+  });
+});
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { assertWebhookSignature, generateWebhookSignature } from '@/utils/webhook';
+import { UnauthorizedError } from '@/utils/errors';
+
+const SECRET = 'test-webhook-secret';
+const TOLERANCE_SECONDS = 300;
+
+const body = Buffer.from(JSON.stringify({ event: 'payment.completed', paymentReference: 'PAY-123' }));
+const now = Date.UTC(2026, 0, 10, 6, 0, 0);
+const timestamp = now / 1000;
+
+describe('generateWebhookSignature', () => {
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const expected = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body.toString()}`).digest('hex');
+
+    expect(generateWebhookSignature(body, SECRET, timestamp)).toBe(`t=${timestamp},v1=${expected}`);
+  });
+});
+
+describe('assertWebhookSignature', () => {
+  const header = generateWebhookSignature(body, SECRET, timestamp);
+
+  it('accepts a fresh signature over the raw body', () => {
+    expect(() => assertWebhookSignature(body, header, SECRET, TOLERANCE_SECONDS, now)).not.toThrow();
+    expect(() => assertWebhookSignature(body.toString(), header, SECRET, TOLERANCE_SECONDS, now)).not.toThrow();
+  });
+
+  it('tolerates whitespace between the header parts', () => {
+    expect(() => assertWebhookSignature(body, header.replace(',', ', '), SECRET, TOLERANCE_SECONDS, now)).not.toThrow();
+  });
+
+  it.each([
+    ['no secret is configured', body, header, ''],
+    ['the header is missing', body, undefined, SECRET],
+    ['the header is malformed', body, 'garbage', SECRET],
+    ['the body was altered', Buffer.from('{"event":"payment.failed"}'), header, SECRET],
+    ['it was signed with another secret', body, generateWebhookSignature(body, 'other-secret', timestamp), SECRET],
+  ])('rejects a delivery when %s', (_, payload, signature, secret) => {
+    expect(() => assertWebhookSignature(payload, signature, secret, TOLERANCE_SECONDS, now)).toThrow(UnauthorizedError);
+  });
+
+  it('rejects a replay outside the tolerance window', () => {
+    const late = now + (TOLERANCE_SECONDS + 1) * 1000;
+    const early = now - (TOLERANCE_SECONDS + 1) * 1000;
+
+    expect(() => assertWebhookSignature(body, header, SECRET, TOLERANCE_SECONDS, late)).toThrow(UnauthorizedError);
+    expect(() => assertWebhookSignature(body, header, SECRET, TOLERANCE_SECONDS, early)).toThrow(UnauthorizedError);
+    expect(() => assertWebhookSignature(body, header, SECRET, TOLERANCE_SECONDS, now + TOLERANCE_SECONDS * 1000))
+      .not.toThrow();
+  });
+});
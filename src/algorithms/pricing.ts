@@ -183,8 +183,8 @@ class DynamicPricing {
         
         dynamicPrice = Math.max(minPrice, Math.min(maxPrice, dynamicPrice));
         
-        // Round to nearest 5 (for clean pricing)
-        return Math.round(dynamicPrice / 5) * 5;
+        // Round to nearest Rs. 5 (for clean pricing); prices are in paisa
+        return Math.round(dynamicPrice / 500) * 500;
     }
 
     /**
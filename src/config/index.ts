@@ -25,12 +25,20 @@ interface Config {
     secretKey: string;
     successUrl: string;
     failureUrl: string;
+    baseUrl: string;
   };
   khalti: {
     secretKey: string;
     publicKey: string;
     successUrl: string;
     failureUrl: string;
+    baseUrl: string;
+    webhookSecret: string;
+  };
+  payments: {
+    mockEnabled: boolean;
+    mockWebhookSecret: string;
+    webhookToleranceSeconds: number;
   };
   admin: {
     email: string;
@@ -40,6 +48,57 @@ interface Config {
     email: string;
     password: string;
   };
+  seatHold: {
+    ttlMinutes: number;
+    maxSeats: number;
+    sweepIntervalMs: number;
+  };
+  booking: {
+    paymentTimeoutMinutes: number;
+    expirySweepIntervalMs: number;
+  };
+  idempotency: {
+    ttlHours: number;
+    lockTimeoutSeconds: number;
+    sweepIntervalMs: number;
+  };
+  reconciliation: {
+    intervalMs: number;
+    pendingAfterMinutes: number;
+    batchSize: number;
+  };
+  settlement: {
+    defaultCommissionRate: number;
+  };
+  fare: {
+    vatRate: number;
+    serviceFeePerSeat: number;
+  };
+  invoice: {
+    platformName: string;
+    platformPan: string;
+    platformAddress: string;
+  };
+  ticket: {
+    signingKey: string;
+  };
+  loyalty: {
+    pointsPer100Rupees: number;
+    pointsPer100Km: number;
+    pointValue: number;
+    expiryMonths: number;
+    silverThreshold: number;
+    goldThreshold: number;
+    expirySweepIntervalMs: number;
+  };
+  waitlist: {
+    offerMinutes: number;
+    sweepIntervalMs: number;
+  };
+  journey: {
+    roundTripDiscountPercent: number;
+    maxLegs: number;
+  };
 }
 
 const config: Config = {
@@ -69,12 +128,21 @@ const config: Config = {
     secretKey: process.env.ESEWA_SECRET_KEY || '',
     successUrl: process.env.ESEWA_SUCCESS_URL || '',
     failureUrl: process.env.ESEWA_FAILURE_URL || '',
+    baseUrl: process.env.ESEWA_BASE_URL || 'https://rc-epay.esewa.com.np',
   },
   khalti: {
     secretKey: process.env.KHALTI_SECRET_KEY || '',
     publicKey: process.env.KHALTI_PUBLIC_KEY || '',
     successUrl: process.env.KHALTI_SUCCESS_URL || '',
     failureUrl: process.env.KHALTI_FAILURE_URL || '',
+    baseUrl: process.env.KHALTI_BASE_URL || 'https://dev.khalti.com',
+    webhookSecret: process.env.KHALTI_WEBHOOK_SECRET || '',
+  },
+  payments: {
+    // Completes payments without taking money; only ever switched on explicitly
+    mockEnabled: process.env.PAYMENT_MOCK_ENABLED === 'true',
+    mockWebhookSecret: process.env.PAYMENT_MOCK_WEBHOOK_SECRET || '',
+    webhookToleranceSeconds: parseInt(process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS || '300', 10),
   },
   admin: {
     email: process.env.ADMIN_EMAIL || 'admin@busticketing.com',
@@ -83,7 +151,59 @@ const config: Config = {
   mail: {
     email: process.env.MAIL_EMAIL || '',
     password: process.env.MAIL_PASSWORD || '',
-  }
+  },
+  seatHold: {
+    ttlMinutes: parseInt(process.env.SEAT_HOLD_TTL_MINUTES || '10', 10),
+    maxSeats: parseInt(process.env.SEAT_HOLD_MAX_SEATS || '10', 10),
+    sweepIntervalMs: parseInt(process.env.SEAT_HOLD_SWEEP_INTERVAL_MS || '60000', 10),
+  },
+  booking: {
+    paymentTimeoutMinutes: parseInt(process.env.BOOKING_PAYMENT_TIMEOUT_MINUTES || '15', 10),
+    expirySweepIntervalMs: parseInt(process.env.BOOKING_EXPIRY_SWEEP_INTERVAL_MS || '60000', 10),
+  },
+  idempotency: {
+    ttlHours: parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10),
+    // A request still unfinished after this long is presumed lost and its key can be claimed again
+    lockTimeoutSeconds: parseInt(process.env.IDEMPOTENCY_LOCK_TIMEOUT_SECONDS || '60', 10),
+    sweepIntervalMs: parseInt(process.env.IDEMPOTENCY_SWEEP_INTERVAL_MS || '3600000', 10),
+  },
+  reconciliation: {
+    intervalMs: parseInt(process.env.RECONCILIATION_INTERVAL_MS || '300000', 10),
+    pendingAfterMinutes: parseInt(process.env.RECONCILIATION_PENDING_AFTER_MINUTES || '10', 10),
+    batchSize: parseInt(process.env.RECONCILIATION_BATCH_SIZE || '100', 10),
+  },
+  settlement: {
+    defaultCommissionRate: parseFloat(process.env.PLATFORM_COMMISSION_RATE || '10'),
+  },
+  fare: {
+    vatRate: parseFloat(process.env.VAT_RATE || '13'),
+    serviceFeePerSeat: parseInt(process.env.SERVICE_FEE_PER_SEAT_PAISA || '0', 10),
+  },
+  invoice: {
+    platformName: process.env.PLATFORM_LEGAL_NAME || 'Bus Ticketing Pvt. Ltd.',
+    platformPan: process.env.PLATFORM_PAN || '',
+    platformAddress: process.env.PLATFORM_ADDRESS || 'Kathmandu, Nepal',
+  },
+  ticket: {
+    signingKey: process.env.TICKET_SIGNING_PRIVATE_KEY || '',
+  },
+  loyalty: {
+    pointsPer100Rupees: parseFloat(process.env.LOYALTY_POINTS_PER_100_RUPEES || '5'),
+    pointsPer100Km: parseFloat(process.env.LOYALTY_POINTS_PER_100_KM || '10'),
+    pointValue: parseInt(process.env.LOYALTY_POINT_VALUE_PAISA || '25', 10),
+    expiryMonths: parseInt(process.env.LOYALTY_POINTS_EXPIRY_MONTHS || '12', 10),
+    silverThreshold: parseInt(process.env.LOYALTY_SILVER_POINTS || '1000', 10),
+    goldThreshold: parseInt(process.env.LOYALTY_GOLD_POINTS || '5000', 10),
+    expirySweepIntervalMs: parseInt(process.env.LOYALTY_EXPIRY_SWEEP_INTERVAL_MS || '3600000', 10),
+  },
+  waitlist: {
+    offerMinutes: parseInt(process.env.WAITLIST_OFFER_MINUTES || '30', 10),
+    sweepIntervalMs: parseInt(process.env.WAITLIST_SWEEP_INTERVAL_MS || '60000', 10),
+  },
+  journey: {
+    roundTripDiscountPercent: parseFloat(process.env.ROUND_TRIP_DISCOUNT_PERCENT || '10'),
+    maxLegs: parseInt(process.env.JOURNEY_MAX_LEGS || '4', 10),
+  },
 };
 
 export default config;
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import { boardingService } from '@/services/boarding.service';
+import { successResponse } from '@/utils/response';
+
+export class BoardingController {
+  async checkIn(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await boardingService.checkIn(id, req.body, userRole, userId);
+
+      return res.status(201).json(
+        successResponse('Passengers boarded successfully', result)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getBoardingReport(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const report = await boardingService.getBoardingReport(id, userRole, userId);
+
+      return res.json(
+        successResponse('Boarding report retrieved successfully', report)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
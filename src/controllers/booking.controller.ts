@@ -68,14 +68,57 @@ export class BookingController {
       const { id } = req.params;
       const userId = req.user?.id;
       const userRole = req.user?.role;
+      const { refundTo, seatNumbers } = req.body;
+
+      if (seatNumbers) {
+        if (!userId || !userRole) {
+          return res.status(401).json(
+            successResponse('Authentication required', null)
+          );
+        }
+
+        const booking = await bookingService.cancelSeats(id, seatNumbers, userId, userRole, refundTo);
+
+        return res.json(
+          successResponse(
+            booking.status === 'CANCELLED' ? 'Booking cancelled successfully' : 'Seats cancelled successfully',
+            booking
+          )
+        );
+      }
       
-      const booking = await bookingService.cancelBooking(id, userId, userRole);
+      const booking = await bookingService.cancelBooking(id, userId, userRole, refundTo);
       
-      res.json(
+      return res.json(
         successResponse('Booking cancelled successfully', booking)
       );
     } catch (error) {
-      next(error);
+      return next(error);
+    }
+  }
+
+  async modifyBooking(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await bookingService.modifyBooking(id, req.body, userId, userRole);
+
+      return res.json(
+        successResponse(
+          result.amountDue > 0 ? 'New seats set aside; pay the fare difference to complete the change' : 'Booking changed successfully',
+          result
+        )
+      );
+    } catch (error) {
+      return next(error);
     }
   }
 
@@ -0,0 +1,120 @@
+import { Request, Response, NextFunction } from 'express';
+import { invoiceService } from '@/services/invoice.service';
+import { successResponse } from '@/utils/response';
+
+export class InvoiceController {
+  async getInvoices(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { page, limit, type, fiscalYear, bookingId } = req.query;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await invoiceService.getInvoices(
+        userRole,
+        userId,
+        page as string,
+        limit as string,
+        type as string,
+        fiscalYear as string,
+        bookingId as string
+      );
+
+      return res.json(
+        successResponse('Invoices retrieved successfully', result.invoices, result.pagination)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getInvoiceById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const invoice = await invoiceService.getInvoiceById(id, userRole, userId);
+
+      return res.json(
+        successResponse('Invoice retrieved successfully', invoice)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async downloadInvoicePdf(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const { invoice, pdf } = await invoiceService.getInvoicePdf(id, userRole, userId);
+      const filename = invoice.invoiceNumber.replace(/\//g, '-');
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.pdf"`);
+      return res.send(pdf);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getTaxDetails(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const details = await invoiceService.getTaxDetails(userId);
+
+      return res.json(
+        successResponse('Tax details retrieved successfully', details)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async updateTaxDetails(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const details = await invoiceService.updateTaxDetails(userId, req.body.panNumber);
+
+      return res.json(
+        successResponse('Tax details updated successfully', details)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
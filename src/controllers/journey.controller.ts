@@ -0,0 +1,90 @@
+import { Request, Response, NextFunction } from 'express';
+import { journeyService } from '@/services/journey.service';
+import { successResponse } from '@/utils/response';
+
+export class JourneyController {
+  async createJourney(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const journey = await journeyService.createJourney(req.body, userId);
+
+      return res.status(201).json(
+        successResponse('Journey booked successfully', journey)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getUserJourneys(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { page, limit } = req.query;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await journeyService.getUserJourneys(userId, page as string, limit as string);
+
+      return res.json(
+        successResponse('Journeys retrieved successfully', result.journeys, result.pagination)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getJourney(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const journey = await journeyService.getJourney(id, userId, userRole);
+
+      return res.json(
+        successResponse('Journey retrieved successfully', journey)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async cancelJourney(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const journey = await journeyService.cancelJourney(id, req.body, userId, userRole);
+
+      return res.json(
+        successResponse('Journey cancelled successfully', journey)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
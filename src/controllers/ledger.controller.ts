@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { ledgerService } from '@/services/ledger.service';
+import { successResponse } from '@/utils/response';
+
+export class LedgerController {
+  async getTrialBalance(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { asOf } = req.query;
+
+      const trialBalance = await ledgerService.getTrialBalance(
+        asOf ? new Date(asOf as string) : undefined
+      );
+
+      res.json(
+        successResponse('Trial balance retrieved successfully', trialBalance)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getAccountEntries(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { code } = req.params;
+      const { page, limit } = req.query;
+
+      const result = await ledgerService.getAccountEntries(code, page as string, limit as string);
+
+      res.json(
+        successResponse('Ledger entries retrieved successfully', {
+          account: result.account,
+          entries: result.entries,
+        }, result.pagination)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express';
+import { manifestService } from '@/services/manifest.service';
+import { successResponse } from '@/utils/response';
+
+export class ManifestController {
+  async getManifest(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { format } = req.query;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      if (format === 'csv') {
+        const { manifest, csv } = await manifestService.getManifestCsv(id, userRole, userId);
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${manifestFilename(manifest.trip)}.csv"`);
+        return res.send(csv);
+      }
+
+      if (format === 'pdf') {
+        const { manifest, pdf } = await manifestService.getManifestPdf(id, userRole, userId);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${manifestFilename(manifest.trip)}.pdf"`);
+        return res.send(pdf);
+      }
+
+      const manifest = await manifestService.getManifest(id, userRole, userId);
+
+      return res.json(
+        successResponse('Manifest retrieved successfully', manifest)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
+
+// e.g. manifest-BA-1-KHA-1234-2025-01-31
+const manifestFilename = (trip: { busNumber: string; departureTime: Date }): string =>
+  `manifest-${trip.busNumber.replace(/[^A-Za-z0-9]+/g, '-')}-${trip.departureTime.toISOString().slice(0, 10)}`;
@@ -1,6 +1,11 @@
 import { Request, Response, NextFunction } from 'express';
 import { PaymentService } from '@/services/payment.service';
+import { cashService } from '@/services/cash.service';
+import { walletService } from '@/services/wallet.service';
+import { paymentWebhookService } from '@/services/paymentWebhook.service';
+import { reconciliationService } from '@/services/reconciliation.service';
 import { successResponse } from '@/utils/response';
+import { paymentProviders } from '@/providers';
 
 const paymentService = new PaymentService();
 
@@ -25,31 +30,16 @@ export class PaymentController {
     }
   }
 
-  async verifyEsewaPayment(req: Request, res: Response, next: NextFunction) {
+  async verifyPayment(req: Request, res: Response, next: NextFunction) {
     try {
-      const { oid, refId, amt } = req.query;
-      const paymentReference = req.params.reference;
-
-      const result = await paymentService.verifyEsewaPayment(
-        paymentReference,
-        oid as string,
-        refId as string
-      );
+      const { method, reference } = req.params;
+      const provider = paymentProviders.fromSlug(method);
 
-      res.json(
-        successResponse('Payment verified successfully', result)
+      const result = await paymentService.verifyPayment(
+        reference,
+        provider.parseCallback({ ...req.query, ...req.body }),
+        provider.method
       );
-    } catch (error) {
-      next(error);
-    }
-  }
-
-  async verifyKhaltiPayment(req: Request, res: Response, next: NextFunction) {
-    try {
-      const { token } = req.body;
-      const paymentReference = req.params.reference;
-
-      const result = await paymentService.verifyKhaltiPayment(paymentReference, token);
 
       res.json(
         successResponse('Payment verified successfully', result)
@@ -141,51 +131,194 @@ export class PaymentController {
     }
   }
 
-  // Success/Failure callback handlers
-  async esewaSuccess(req: Request, res: Response, next: NextFunction) {
+  async payFromWallet(req: Request, res: Response, next: NextFunction) {
     try {
-      const { oid, refId, amt } = req.query;
-      const paymentReference = req.params.reference;
+      const userId = req.user?.id;
 
-      const result = await paymentService.verifyEsewaPayment(
-        paymentReference,
-        oid as string,
-        refId as string
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await walletService.payFromWallet(req.body, userId);
+
+      return res.status(201).json(
+        successResponse('Wallet payment completed successfully', result)
       );
+    } catch (error) {
+      return next(error);
+    }
+  }
 
-      // Redirect to frontend success page
-      res.redirect(`/payment-success?reference=${paymentReference}&status=success`);
+  async recordCashPayment(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await cashService.recordCashPayment(req.body, userId);
+
+      return res.status(201).json(
+        successResponse('Cash payment recorded successfully', result)
+      );
     } catch (error) {
-      res.redirect(`/payment-failure?reference=${req.params.reference}&error=verification_failed`);
+      return next(error);
     }
   }
 
-  async esewaFailure(req: Request, res: Response, next: NextFunction) {
+  async createWalkInBooking(req: Request, res: Response, next: NextFunction) {
     try {
-      const paymentReference = req.params.reference;
+      const userId = req.user?.id;
 
-      // Redirect to frontend failure page
-      res.redirect(`/payment-failure?reference=${paymentReference}&status=failed`);
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await cashService.createWalkInBooking(req.body, userId);
+
+      return res.status(201).json(
+        successResponse('Walk-in booking created successfully', result)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getCashDrawerReport(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { date, collectorId } = req.query;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const report = await cashService.getCashDrawerReport(
+        {
+          date: date as string,
+          collectorId: collectorId as string,
+        },
+        userRole,
+        userId
+      );
+
+      return res.json(
+        successResponse('Cash drawer report retrieved successfully', report)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async handleWebhook(req: Request, res: Response, next: NextFunction) {
+    try {
+      const event = await paymentWebhookService.handleWebhook(req.params.method, {
+        rawBody: req.rawBody || Buffer.from(''),
+        headers: req.headers,
+        body: req.body || {},
+      });
+
+      res.json(
+        successResponse('Webhook received', {
+          eventId: event.id,
+          status: event.status,
+        })
+      );
     } catch (error) {
       next(error);
     }
   }
 
-  async khaltiSuccess(req: Request, res: Response, next: NextFunction) {
+  async getWebhookEvents(req: Request, res: Response, next: NextFunction) {
     try {
-      const { token } = req.query;
-      const paymentReference = req.params.reference;
+      const { page, limit, status, method } = req.query;
+
+      const result = await paymentWebhookService.getWebhookEvents(
+        page as string,
+        limit as string,
+        status as string,
+        method as string
+      );
+
+      res.json(
+        successResponse('Webhook events retrieved successfully', result.events, result.pagination)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getReconciliationRuns(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { page, limit } = req.query;
+
+      const result = await reconciliationService.getRuns(page as string, limit as string);
 
-      const result = await paymentService.verifyKhaltiPayment(paymentReference, token as string);
+      res.json(
+        successResponse('Reconciliation runs retrieved successfully', result.runs, result.pagination)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getReconciliationRunById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { outcome } = req.query;
+
+      const run = await reconciliationService.getRunById(id, outcome as string);
+
+      res.json(
+        successResponse('Reconciliation run retrieved successfully', run)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async runReconciliation(req: Request, res: Response, next: NextFunction) {
+    try {
+      const run = await reconciliationService.reconcilePendingPayments(req.user?.id);
+
+      res.status(201).json(
+        successResponse('Reconciliation completed successfully', run)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Success/Failure callback handlers
+  async paymentSuccess(req: Request, res: Response) {
+    try {
+      const { method, reference } = req.params;
+      const provider = paymentProviders.fromSlug(method);
+
+      await paymentService.verifyPayment(
+        reference,
+        provider.parseCallback({ ...req.query }),
+        provider.method
+      );
 
       // Redirect to frontend success page
-      res.redirect(`/payment-success?reference=${paymentReference}&status=success`);
+      res.redirect(`/payment-success?reference=${reference}&status=success`);
     } catch (error) {
       res.redirect(`/payment-failure?reference=${req.params.reference}&error=verification_failed`);
     }
   }
 
-  async khaltiFailure(req: Request, res: Response, next: NextFunction) {
+  async paymentFailure(req: Request, res: Response, next: NextFunction) {
     try {
       const paymentReference = req.params.reference;
 
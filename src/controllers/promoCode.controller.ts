@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from 'express';
+import { promoCodeService } from '@/services/promoCode.service';
+import { successResponse } from '@/utils/response';
+
+export class PromoCodeController {
+  async createPromoCode(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const promoCode = await promoCodeService.createPromoCode(req.body, userRole, userId);
+
+      return res.status(201).json(
+        successResponse('Promo code created successfully', promoCode)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getPromoCodes(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { page, limit, isActive } = req.query;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await promoCodeService.getPromoCodes(
+        userRole,
+        userId,
+        page as string,
+        limit as string,
+        isActive as string
+      );
+
+      return res.json(
+        successResponse('Promo codes retrieved successfully', result.promoCodes, result.pagination)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getPromoCodeById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const promoCode = await promoCodeService.getPromoCodeById(id, userRole, userId);
+
+      return res.json(
+        successResponse('Promo code retrieved successfully', promoCode)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async updatePromoCode(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const promoCode = await promoCodeService.updatePromoCode(id, req.body, userRole, userId);
+
+      return res.json(
+        successResponse('Promo code updated successfully', promoCode)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async validatePromoCode(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const quote = await promoCodeService.validatePromoCode(req.body, userId);
+
+      return res.json(
+        successResponse('Promo code is valid', quote)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
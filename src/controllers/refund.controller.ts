@@ -0,0 +1,175 @@
+import { Request, Response, NextFunction } from 'express';
+import { refundService } from '@/services/refund.service';
+import { successResponse } from '@/utils/response';
+
+export class RefundController {
+  async getRefunds(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { page, limit, status } = req.query;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await refundService.getRefunds(
+        userRole,
+        userId,
+        page as string,
+        limit as string,
+        status as string
+      );
+
+      return res.json(
+        successResponse('Refunds retrieved successfully', result.refunds, result.pagination)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getRefundById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const refund = await refundService.getRefundById(id, userRole, userId);
+
+      return res.json(
+        successResponse('Refund retrieved successfully', refund)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async approveRefund(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const refund = await refundService.approveRefund(id, userRole, userId);
+
+      return res.json(
+        successResponse('Refund approved successfully', refund)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async rejectRefund(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const refund = await refundService.rejectRefund(id, req.body.reason, userRole, userId);
+
+      return res.json(
+        successResponse('Refund rejected successfully', refund)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async completeRefund(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const refund = await refundService.completeRefund(id, req.body?.gatewayReference, userRole, userId);
+
+      return res.json(
+        successResponse('Refund completed successfully', refund)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getMyCancellationPolicy(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const policy = await refundService.getOperatorCancellationPolicy(userId);
+
+      return res.json(
+        successResponse('Cancellation policy retrieved successfully', policy)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getCancellationPolicy(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { operatorId } = req.params;
+
+      const policy = await refundService.getCancellationPolicy(operatorId);
+
+      res.json(
+        successResponse('Cancellation policy retrieved successfully', policy)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateCancellationPolicy(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const policy = await refundService.updateCancellationPolicy(userId, req.body.tiers);
+
+      return res.json(
+        successResponse('Cancellation policy updated successfully', policy)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction } from 'express';
+import { settlementService } from '@/services/settlement.service';
+import { successResponse } from '@/utils/response';
+
+export class SettlementController {
+  async getSettlements(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { page, limit, status, operatorId } = req.query;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await settlementService.getSettlements(
+        userRole,
+        userId,
+        page as string,
+        limit as string,
+        status as string,
+        operatorId as string
+      );
+
+      return res.json(
+        successResponse('Settlements retrieved successfully', result.settlements, result.pagination)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getBalance(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const balance = await settlementService.getOperatorBalance(userId);
+
+      return res.json(
+        successResponse('Operator balance retrieved successfully', balance)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getSettlementById(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const settlement = await settlementService.getSettlementById(id, userRole, userId);
+
+      return res.json(
+        successResponse('Settlement retrieved successfully', settlement)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async generateSettlements(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { periodStart, periodEnd, operatorId } = req.body;
+
+      const settlements = await settlementService.generateSettlements(
+        periodEnd ? new Date(periodEnd) : new Date(),
+        periodStart ? new Date(periodStart) : undefined,
+        operatorId
+      );
+
+      res.status(201).json(
+        successResponse('Settlements generated successfully', settlements)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async markSettlementPaid(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      const settlement = await settlementService.markSettlementPaid(id, req.body.payoutReference);
+
+      res.json(
+        successResponse('Settlement marked as paid', settlement)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async setCommissionRate(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { operatorId } = req.params;
+
+      const operator = await settlementService.setCommissionRate(operatorId, req.body.commissionRate);
+
+      res.json(
+        successResponse('Commission rate updated successfully', operator)
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
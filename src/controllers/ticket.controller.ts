@@ -0,0 +1,67 @@
+import { Request, Response, NextFunction } from 'express';
+import { ticketService } from '@/services/ticket.service';
+import { successResponse } from '@/utils/response';
+
+export class TicketController {
+  async getTicket(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { format } = req.query;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      if (format === 'html') {
+        const html = await ticketService.getTicketHtml(id, userRole, userId);
+
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        return res.send(html);
+      }
+
+      const ticket = await ticketService.getTicketWithQrImage(id, userRole, userId);
+
+      return res.json(
+        successResponse('E-ticket retrieved successfully', ticket)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async downloadTicketPdf(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const { ticket, pdf } = await ticketService.getTicketPdf(id, userRole, userId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="ticket-${ticket.bookingReference}.pdf"`);
+      return res.send(pdf);
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getPublicKey(_req: Request, res: Response, next: NextFunction) {
+    try {
+      res.json(
+        successResponse('Ticket signing key retrieved successfully', ticketService.getPublicKey())
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
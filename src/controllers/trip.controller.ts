@@ -26,8 +26,8 @@ export class TripController {
         origin: origin as string,
         destination: destination as string,
         date: date as string,
-        minPrice: minPrice ? parseFloat(minPrice as string) : undefined,
-        maxPrice: maxPrice ? parseFloat(maxPrice as string) : undefined,
+        minPrice: minPrice ? parseInt(minPrice as string, 10) : undefined,
+        maxPrice: maxPrice ? parseInt(maxPrice as string, 10) : undefined,
         busType: busType as string,
         useContentBased: useContentBased === 'true',
         userId: req.user?.id,
@@ -130,4 +130,46 @@ export class TripController {
       next(error);
     }
   }
+
+  async holdSeats(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await tripService.holdSeats(id, req.body.seatNumbers, userId);
+
+      return res.status(201).json(
+        successResponse('Seats held successfully', result)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async releaseSeats(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await tripService.releaseSeats(id, userId, req.body?.seatNumbers);
+
+      return res.json(
+        successResponse('Seats released successfully', result)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
 }
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserService } from '@/services/user.service';
+import { loyaltyService } from '@/services/loyalty.service';
 import { successResponse } from '@/utils/response';
 
 const userService = new UserService();
@@ -84,4 +85,50 @@ export class UserController {
       next(error);
     }
   }
+
+  async getLoyaltySummary(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const summary = await loyaltyService.getSummary(userId);
+
+      return res.json(
+        successResponse('Loyalty summary retrieved successfully', summary)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getLoyaltyStatement(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+      const { page, limit, type } = req.query;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await loyaltyService.getStatement(
+        userId,
+        page as string,
+        limit as string,
+        type as string
+      );
+
+      return res.json(
+        successResponse('Loyalty statement retrieved successfully', result.transactions, result.pagination)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
 }
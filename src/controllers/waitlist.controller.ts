@@ -0,0 +1,72 @@
+import { Request, Response, NextFunction } from 'express';
+import { waitlistService } from '@/services/waitlist.service';
+import { successResponse } from '@/utils/response';
+
+export class WaitlistController {
+  async join(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const entry = await waitlistService.join(id, req.body.seatCount, userId);
+
+      return res.status(201).json(
+        successResponse('Joined the waitlist successfully', entry)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getWaitlist(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId || !userRole) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      // Customers see their own place in the queue; operators see the whole queue
+      const result = userRole === 'CUSTOMER'
+        ? await waitlistService.getEntry(id, userId)
+        : await waitlistService.getQueue(id, userRole, userId);
+
+      return res.json(
+        successResponse('Waitlist retrieved successfully', result)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async leave(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const entry = await waitlistService.leave(id, userId);
+
+      return res.json(
+        successResponse('Left the waitlist successfully', entry)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
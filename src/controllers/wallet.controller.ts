@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { walletService } from '@/services/wallet.service';
+import { successResponse } from '@/utils/response';
+
+export class WalletController {
+  async getWallet(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const wallet = await walletService.getWallet(userId);
+
+      return res.json(
+        successResponse('Wallet retrieved successfully', wallet)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  async getTransactions(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+      const { page, limit, type } = req.query;
+
+      if (!userId) {
+        return res.status(401).json(
+          successResponse('Authentication required', null)
+        );
+      }
+
+      const result = await walletService.getTransactions(
+        userId,
+        page as string,
+        limit as string,
+        type as string
+      );
+
+      return res.json(
+        successResponse('Wallet transactions retrieved successfully', result.transactions, result.pagination)
+      );
+    } catch (error) {
+      return next(error);
+    }
+  }
+}
@@ -30,6 +30,10 @@ export const errorHandler = (
         return res.status(404).json(
           errorResponse('Record not found.')
         );
+      case 'P2034':
+        return res.status(409).json(
+          errorResponse('Request conflicted with a concurrent update. Please retry.')
+        );
       case 'P2003':
         return res.status(400).json(
           errorResponse('Foreign key constraint failed.')
@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { BadRequestError, UnauthorizedError } from '@/utils/errors';
+import { idempotencyService } from '@/services/idempotency.service';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Honour an optional Idempotency-Key header: a repeated key replays the stored
+ * response instead of running the handler again. Only successful responses are
+ * stored; an error response releases the key so the request can be retried.
+ */
+export const idempotent = async (req: Request, res: Response, next: NextFunction) => {
+  const key = req.header('Idempotency-Key');
+
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return next(new BadRequestError(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`));
+  }
+
+  if (!req.user) {
+    return next(new UnauthorizedError('Authentication required'));
+  }
+
+  try {
+    const claim = await idempotencyService.claim({
+      key,
+      userId: req.user.id,
+      method: req.method,
+      path: req.baseUrl + req.path,
+      body: req.body,
+    });
+
+    if (claim.replay) {
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(claim.status).json(claim.body);
+    }
+
+    const json = res.json.bind(res);
+
+    res.json = (body: unknown) => {
+      const settle = res.statusCode < 400
+        ? idempotencyService.complete(claim.id, res.statusCode, body)
+        : idempotencyService.release(claim.id);
+
+      settle.catch((error) => {
+        console.error('Failed to record idempotent response:', error);
+      });
+
+      return json(body);
+    };
+
+    return next();
+  } catch (error) {
+    return next(error);
+  }
+};
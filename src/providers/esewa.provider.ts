@@ -0,0 +1,169 @@
+import config from '@/config';
+import { Payment, PaymentMethod } from '@prisma/client';
+import { BadRequestError, UnauthorizedError } from '@/utils/errors';
+import { formatRupees, toPaisa } from '@/utils/money';
+import {
+  ESEWA_SIGNED_FIELD_NAMES,
+  EsewaCallbackPayload,
+  EsewaStatusResponse,
+  decodeEsewaCallback,
+  generateEsewaSignature,
+  verifyEsewaSignature,
+} from '@/utils/esewa';
+import {
+  PaymentCallbackParams,
+  PaymentInitiation,
+  PaymentProvider,
+  PaymentRefundResult,
+  PaymentVerification,
+  PaymentVerificationStatus,
+  PaymentWebhook,
+  PaymentWebhookRequest,
+} from '@/providers/payment.provider';
+
+const STATUS_MAP: Record<EsewaStatusResponse['status'], PaymentVerificationStatus> = {
+  COMPLETE: 'COMPLETED',
+  PENDING: 'PENDING',
+  AMBIGUOUS: 'PENDING',
+  FULL_REFUND: 'REFUNDED',
+  PARTIAL_REFUND: 'REFUNDED',
+  NOT_FOUND: 'NOT_FOUND',
+  CANCELED: 'FAILED',
+};
+
+export class EsewaProvider implements PaymentProvider {
+  readonly method = PaymentMethod.ESEWA;
+
+  /**
+   * eSewa ePay v2 expects the client to POST these signed fields to the form URL
+   */
+  async initiate(payment: Payment): Promise<PaymentInitiation> {
+    const fields: Record<string, string> = {
+      // ePay takes rupees
+      amount: formatRupees(payment.amount),
+      tax_amount: '0',
+      total_amount: formatRupees(payment.amount),
+      transaction_uuid: payment.paymentReference,
+      product_code: config.esewa.merchantId,
+      product_service_charge: '0',
+      product_delivery_charge: '0',
+      success_url: `${config.esewa.successUrl}/${payment.paymentReference}`,
+      failure_url: `${config.esewa.failureUrl}/${payment.paymentReference}`,
+      signed_field_names: ESEWA_SIGNED_FIELD_NAMES,
+    };
+
+    return {
+      gatewayUrl: `${config.esewa.baseUrl}/api/epay/main/v2/form`,
+      gatewayData: {
+        ...fields,
+        signature: generateEsewaSignature(fields, ESEWA_SIGNED_FIELD_NAMES, config.esewa.secretKey),
+      },
+    };
+  }
+
+  /**
+   * The signed callback payload (`data`) is checked when present, but the outcome
+   * always comes from eSewa's transaction status API.
+   */
+  async verify(payment: Payment, params: PaymentCallbackParams): Promise<PaymentVerification> {
+    let callback: EsewaCallbackPayload | undefined;
+
+    if (params.data) {
+      callback = decodeEsewaCallback(params.data);
+
+      const signatureValid = verifyEsewaSignature(
+        callback as unknown as Record<string, unknown>,
+        callback.signed_field_names,
+        callback.signature,
+        config.esewa.secretKey
+      );
+
+      if (!signatureValid) {
+        throw new BadRequestError('Invalid eSewa signature');
+      }
+
+      if (callback.transaction_uuid !== payment.paymentReference) {
+        throw new BadRequestError('eSewa payload does not match this payment');
+      }
+    }
+
+    const statusCheck = await this.checkStatus(payment);
+
+    return {
+      status: STATUS_MAP[statusCheck.status] || 'PENDING',
+      amount: toPaisa(Number(statusCheck.total_amount)),
+      transactionId: statusCheck.ref_id || callback?.transaction_code,
+      message: `eSewa reported status ${statusCheck.status}`,
+      gatewayResponse: {
+        callback,
+        statusCheck,
+      },
+    };
+  }
+
+  async refund(payment: Payment, amount: number, reason: string): Promise<PaymentRefundResult> {
+    // ePay v2 has no merchant refund API; refunds are issued from the merchant portal
+    return {
+      status: 'PENDING',
+      message: 'eSewa refunds must be completed from the eSewa merchant portal',
+      gatewayResponse: {
+        transactionId: payment.transactionId,
+        amount,
+        reason,
+      },
+    };
+  }
+
+  parseCallback(input: Record<string, unknown>): PaymentCallbackParams {
+    return {
+      data: typeof input.data === 'string' ? input.data : undefined,
+    };
+  }
+
+  /**
+   * eSewa notifications carry the same signed `data` payload as the success redirect
+   */
+  parseWebhook(request: PaymentWebhookRequest): PaymentWebhook {
+    const data = typeof request.body.data === 'string' ? request.body.data : undefined;
+
+    if (!data) {
+      throw new BadRequestError('eSewa webhook payload is missing data');
+    }
+
+    const callback = decodeEsewaCallback(data);
+
+    const signatureValid = verifyEsewaSignature(
+      callback as unknown as Record<string, unknown>,
+      callback.signed_field_names,
+      callback.signature,
+      config.esewa.secretKey
+    );
+
+    if (!signatureValid) {
+      throw new UnauthorizedError('Invalid eSewa signature');
+    }
+
+    return {
+      paymentReference: callback.transaction_uuid,
+      transactionId: callback.transaction_code,
+      params: { data },
+    };
+  }
+
+  private async checkStatus(payment: Payment): Promise<EsewaStatusResponse> {
+    const params = new URLSearchParams({
+      product_code: config.esewa.merchantId,
+      total_amount: formatRupees(payment.amount),
+      transaction_uuid: payment.paymentReference,
+    });
+
+    const response = await fetch(`${config.esewa.baseUrl}/api/epay/transaction/status/?${params.toString()}`);
+
+    if (!response.ok) {
+      console.error('eSewa status check failed:', response.status);
+      throw new Error('Failed to check payment status with eSewa');
+    }
+
+    return (await response.json()) as EsewaStatusResponse;
+  }
+}
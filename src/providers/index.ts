@@ -0,0 +1,15 @@
+import config from '@/config';
+import { paymentProviders } from '@/providers/payment.provider';
+import { EsewaProvider } from '@/providers/esewa.provider';
+import { KhaltiProvider } from '@/providers/khalti.provider';
+import { MockProvider } from '@/providers/mock.provider';
+
+paymentProviders.register(new EsewaProvider());
+paymentProviders.register(new KhaltiProvider());
+
+if (config.payments.mockEnabled) {
+  paymentProviders.register(new MockProvider());
+}
+
+export { paymentProviders };
+export * from '@/providers/payment.provider';
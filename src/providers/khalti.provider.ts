@@ -0,0 +1,191 @@
+import config from '@/config';
+import { Payment, PaymentMethod } from '@prisma/client';
+import { BadRequestError } from '@/utils/errors';
+import { KhaltiInitiateResponse, KhaltiLookupResponse, mapKhaltiStatus } from '@/utils/khalti';
+import { WEBHOOK_SIGNATURE_HEADER, assertWebhookSignature } from '@/utils/webhook';
+import {
+  PaymentCallbackParams,
+  PaymentCustomer,
+  PaymentInitiation,
+  PaymentProvider,
+  PaymentRefundResult,
+  PaymentVerification,
+  PaymentWebhook,
+  PaymentWebhookRequest,
+} from '@/providers/payment.provider';
+
+export class KhaltiProvider implements PaymentProvider {
+  readonly method = PaymentMethod.KHALTI;
+
+  async initiate(payment: Payment, customer: PaymentCustomer): Promise<PaymentInitiation> {
+    const data = await this.request('/api/v2/epayment/initiate/', {
+      return_url: `${config.khalti.successUrl}/${payment.paymentReference}`,
+      website_url: config.website.url,
+      amount: payment.amount,
+      purchase_order_id: payment.paymentReference,
+      purchase_order_name: 'Trip Booking',
+      customer_info: {
+        name: customer.name,
+        email: customer.email,
+        phone: customer.phone,
+      },
+    }, 'initiate payment');
+
+    const khaltiPayment = data as KhaltiInitiateResponse;
+
+    return {
+      gatewayUrl: khaltiPayment.payment_url,
+      gatewayData: {
+        publicKey: config.khalti.publicKey,
+        pidx: khaltiPayment.pidx,
+        amount: payment.amount, // Khalti uses paisa, like Payment.amount
+        reference: payment.paymentReference,
+        expiresAt: khaltiPayment.expires_at,
+      },
+      // Keep the pidx so the payment can be looked up later
+      gatewayResponse: { ...khaltiPayment },
+    };
+  }
+
+  /**
+   * Look up the payment by the pidx stored at initiation
+   */
+  async verify(payment: Payment, params: PaymentCallbackParams): Promise<PaymentVerification> {
+    const storedPidx = (payment.gatewayResponse as { pidx?: string } | null)?.pidx;
+
+    if (params.pidx && storedPidx && params.pidx !== storedPidx) {
+      throw new BadRequestError('Khalti pidx does not match this payment');
+    }
+
+    // Without a pidx the payment never reached Khalti, so it is unknown there
+    const pidx = storedPidx || params.pidx;
+    if (!pidx) {
+      return {
+        status: 'NOT_FOUND',
+        message: 'Payment has no Khalti pidx',
+        gatewayResponse: {},
+      };
+    }
+
+    const lookup = (await this.request('/api/v2/epayment/lookup/', { pidx }, 'look up payment', true)) as KhaltiLookupResponse | null;
+
+    if (!lookup) {
+      return {
+        status: 'NOT_FOUND',
+        message: `Khalti has no payment with pidx ${pidx}`,
+        gatewayResponse: { pidx },
+      };
+    }
+
+    return {
+      status: mapKhaltiStatus(lookup.status),
+      amount: lookup.total_amount,
+      transactionId: lookup.transaction_id || lookup.pidx,
+      message: `Khalti reported status ${lookup.status}`,
+      gatewayResponse: { ...lookup },
+    };
+  }
+
+  async refund(payment: Payment, amount: number, reason: string): Promise<PaymentRefundResult> {
+    if (!payment.transactionId) {
+      return {
+        status: 'FAILED',
+        message: 'Payment has no Khalti transaction id to refund',
+        gatewayResponse: { reason },
+      };
+    }
+
+    const response = await fetch(`${config.khalti.baseUrl}/api/merchant-transaction/${payment.transactionId}/refund/`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Key ${config.khalti.secretKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        amount,
+      }),
+    });
+
+    const data = (await response.json()) as Record<string, unknown>;
+
+    if (!response.ok) {
+      console.error('Khalti refund failed:', data);
+      return {
+        status: 'FAILED',
+        message: 'Khalti rejected the refund',
+        gatewayResponse: data,
+      };
+    }
+
+    return {
+      status: 'COMPLETED',
+      gatewayReference: payment.transactionId,
+      gatewayResponse: data,
+    };
+  }
+
+  parseCallback(input: Record<string, unknown>): PaymentCallbackParams {
+    return {
+      pidx: typeof input.pidx === 'string' ? input.pidx : undefined,
+    };
+  }
+
+  /**
+   * Khalti notifications mirror the return_url parameters and are signed with the
+   * shared webhook secret
+   */
+  parseWebhook(request: PaymentWebhookRequest): PaymentWebhook {
+    assertWebhookSignature(
+      request.rawBody,
+      request.headers[WEBHOOK_SIGNATURE_HEADER] as string | undefined,
+      config.khalti.webhookSecret,
+      config.payments.webhookToleranceSeconds
+    );
+
+    const { pidx, transaction_id, purchase_order_id } = request.body;
+
+    if (typeof pidx !== 'string' || typeof purchase_order_id !== 'string') {
+      throw new BadRequestError('Khalti webhook payload is missing pidx or purchase_order_id');
+    }
+
+    return {
+      paymentReference: purchase_order_id,
+      // Cancelled payments have no transaction id yet
+      transactionId: typeof transaction_id === 'string' && transaction_id ? transaction_id : pidx,
+      params: { pidx },
+    };
+  }
+
+  /**
+   * POST to the Khalti API. With `notFoundAsNull`, a 404 (e.g. a lookup of an
+   * unknown pidx) returns null instead of throwing.
+   */
+  private async request(
+    path: string,
+    body: Record<string, unknown>,
+    action: string,
+    notFoundAsNull: boolean = false
+  ): Promise<unknown> {
+    const response = await fetch(`${config.khalti.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Key ${config.khalti.secretKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (notFoundAsNull && response.status === 404) {
+      return null;
+    }
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      console.error(`Khalti ${action} failed:`, data);
+      throw new Error(`Failed to ${action} with Khalti`);
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,98 @@
+import config from '@/config';
+import { Payment, PaymentMethod } from '@prisma/client';
+import { BadRequestError } from '@/utils/errors';
+import { WEBHOOK_SIGNATURE_HEADER, assertWebhookSignature } from '@/utils/webhook';
+import {
+  PaymentCallbackParams,
+  PaymentInitiation,
+  PaymentProvider,
+  PaymentRefundResult,
+  PaymentVerification,
+  PaymentWebhook,
+  PaymentWebhookRequest,
+} from '@/providers/payment.provider';
+
+/**
+ * Deterministic provider for local development and tests. Payments complete
+ * unless the callback carries `outcome=failure` or `outcome=pending`.
+ */
+export class MockProvider implements PaymentProvider {
+  readonly method = PaymentMethod.MOCK;
+
+  async initiate(payment: Payment): Promise<PaymentInitiation> {
+    return {
+      gatewayUrl: `${config.website.url}/api/payments/mock/success/${payment.paymentReference}`,
+      gatewayData: {
+        reference: payment.paymentReference,
+        amount: payment.amount,
+      },
+    };
+  }
+
+  async verify(payment: Payment, params: PaymentCallbackParams): Promise<PaymentVerification> {
+    const outcome = params.outcome || 'success';
+
+    if (outcome === 'failure') {
+      return {
+        status: 'FAILED',
+        message: 'Mock payment declined',
+        gatewayResponse: { outcome },
+      };
+    }
+
+    if (outcome === 'pending') {
+      return {
+        status: 'PENDING',
+        message: 'Mock payment pending',
+        gatewayResponse: { outcome },
+      };
+    }
+
+    return {
+      status: 'COMPLETED',
+      amount: payment.amount,
+      transactionId: `MOCK-${payment.paymentReference}`,
+      gatewayResponse: { outcome },
+    };
+  }
+
+  async refund(payment: Payment, amount: number, reason: string): Promise<PaymentRefundResult> {
+    return {
+      status: 'COMPLETED',
+      gatewayReference: `MOCK-REFUND-${payment.paymentReference}`,
+      gatewayResponse: { amount, reason },
+    };
+  }
+
+  parseCallback(input: Record<string, unknown>): PaymentCallbackParams {
+    return {
+      outcome: typeof input.outcome === 'string' ? input.outcome : undefined,
+    };
+  }
+
+  /**
+   * Expects `{ paymentReference, outcome }` signed with PAYMENT_MOCK_WEBHOOK_SECRET
+   */
+  parseWebhook(request: PaymentWebhookRequest): PaymentWebhook {
+    assertWebhookSignature(
+      request.rawBody,
+      request.headers[WEBHOOK_SIGNATURE_HEADER] as string | undefined,
+      config.payments.mockWebhookSecret,
+      config.payments.webhookToleranceSeconds
+    );
+
+    const { paymentReference, outcome } = request.body;
+
+    if (typeof paymentReference !== 'string') {
+      throw new BadRequestError('Mock webhook payload is missing paymentReference');
+    }
+
+    const normalisedOutcome = typeof outcome === 'string' ? outcome : 'success';
+
+    return {
+      paymentReference,
+      transactionId: `MOCK-${paymentReference}-${normalisedOutcome}`,
+      params: { outcome: normalisedOutcome },
+    };
+  }
+}
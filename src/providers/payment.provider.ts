@@ -0,0 +1,105 @@
+import { IncomingHttpHeaders } from 'http';
+import { Payment, PaymentMethod } from '@prisma/client';
+import { BadRequestError } from '@/utils/errors';
+
+export interface PaymentCustomer {
+  name: string;
+  email: string;
+  phone: string;
+}
+
+export interface PaymentInitiation {
+  gatewayUrl: string;
+  gatewayData: Record<string, unknown>;
+  gatewayResponse?: Record<string, unknown>; // Persisted on the payment, e.g. a gateway token
+}
+
+export type PaymentVerificationStatus = 'COMPLETED' | 'PENDING' | 'FAILED' | 'REFUNDED' | 'NOT_FOUND';
+
+export interface PaymentVerification {
+  status: PaymentVerificationStatus;
+  amount?: number; // Amount the gateway reports, in paisa like Payment.amount
+  transactionId?: string;
+  message?: string;
+  gatewayResponse: Record<string, unknown>;
+}
+
+export type RefundResultStatus = 'COMPLETED' | 'PENDING' | 'FAILED';
+
+export interface PaymentRefundResult {
+  status: RefundResultStatus; // PENDING: the gateway settles the refund later or it needs manual action
+  gatewayReference?: string;
+  message?: string;
+  gatewayResponse: Record<string, unknown>;
+}
+
+/**
+ * Callback parameters normalised by a provider, e.g. `{ data }` for eSewa or `{ pidx }` for Khalti
+ */
+export type PaymentCallbackParams = Record<string, string | undefined>;
+
+export interface PaymentWebhookRequest {
+  rawBody: Buffer;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+export interface PaymentWebhook {
+  paymentReference: string;
+  transactionId: string; // Identifies the gateway transaction, so repeated deliveries can be dropped
+  params: PaymentCallbackParams; // Passed to verify()
+}
+
+export interface PaymentProvider {
+  readonly method: PaymentMethod;
+  initiate(payment: Payment, customer: PaymentCustomer): Promise<PaymentInitiation>;
+  verify(payment: Payment, params: PaymentCallbackParams): Promise<PaymentVerification>;
+  refund(payment: Payment, amount: number, reason: string): Promise<PaymentRefundResult>;
+  parseCallback(input: Record<string, unknown>): PaymentCallbackParams;
+  /**
+   * Authenticate a server-to-server notification; throws UnauthorizedError when
+   * the signature does not check out
+   */
+  parseWebhook(request: PaymentWebhookRequest): PaymentWebhook;
+}
+
+class PaymentProviderRegistry {
+  private providers = new Map<PaymentMethod, PaymentProvider>();
+
+  register(provider: PaymentProvider): void {
+    this.providers.set(provider.method, provider);
+  }
+
+  has(method: PaymentMethod): boolean {
+    return this.providers.has(method);
+  }
+
+  get(method: PaymentMethod): PaymentProvider {
+    const provider = this.providers.get(method);
+
+    if (!provider) {
+      throw new BadRequestError(`Payment method ${method} is not supported`);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Resolve a provider from a URL segment such as "esewa"
+   */
+  fromSlug(slug: string): PaymentProvider {
+    const method = slug.toUpperCase() as PaymentMethod;
+
+    if (!Object.values(PaymentMethod).includes(method)) {
+      throw new BadRequestError(`Unknown payment method ${slug}`);
+    }
+
+    return this.get(method);
+  }
+
+  methods(): PaymentMethod[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+export const paymentProviders = new PaymentProviderRegistry();
@@ -1,11 +1,14 @@
 import { Router } from 'express';
 import { BookingController } from '@/controllers/booking.controller';
+import { TicketController } from '@/controllers/ticket.controller';
 import { authenticate, authorize } from '@/middleware/auth';
 import { validate, validateQuery } from '@/middleware/validation';
-import { createBookingSchema, bookingFilterSchema } from '@/validators';
+import { idempotent } from '@/middleware/idempotency';
+import { createBookingSchema, cancelBookingSchema, modifyBookingSchema, bookingFilterSchema, ticketQuerySchema } from '@/validators';
 
 const router = Router();
 const bookingController = new BookingController();
+const ticketController = new TicketController();
 
 // All routes require authentication
 router.use(authenticate);
@@ -20,12 +23,22 @@ router.get('/stats', bookingController.getBookingStatistics);
 router.get('/my-bookings', bookingController.getUserBookings);
 
 // Create booking (customers only)
-router.post('/', authorize('CUSTOMER'), validate(createBookingSchema), bookingController.createBooking);
+router.post('/', authorize('CUSTOMER'), validate(createBookingSchema), idempotent, bookingController.createBooking);
+
+// Public key for verifying e-ticket QR codes offline (conductor devices)
+router.get('/tickets/public-key', ticketController.getPublicKey);
 
 // Get booking by ID
 router.get('/:id', bookingController.getBookingById);
 
-// Cancel booking
-router.put('/:id/cancel', bookingController.cancelBooking);
+// E-ticket for a confirmed booking, as JSON or (?format=html) a printable page
+router.get('/:id/ticket', validateQuery(ticketQuerySchema), ticketController.getTicket);
+router.get('/:id/ticket/pdf', ticketController.downloadTicketPdf);
+
+// Change seats or move to another departure (owner or admin)
+router.post('/:id/modify', authorize('CUSTOMER', 'ADMIN'), validate(modifyBookingSchema), idempotent, bookingController.modifyBooking);
+
+// Cancel booking, or only the given seatNumbers
+router.put('/:id/cancel', validate(cancelBookingSchema), bookingController.cancelBooking);
 
 export default router;
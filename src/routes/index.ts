@@ -2,10 +2,17 @@ import { Router } from 'express';
 import authRoutes from './auth.routes';
 import bookingRoutes from './booking.routes';
 import busRoutes from './bus.routes';
+import invoiceRoutes from './invoice.routes';
+import journeyRoutes from './journey.routes';
+import ledgerRoutes from './ledger.routes';
 import paymentRoutes from './payment.routes';
+import promoCodeRoutes from './promoCode.routes';
+import refundRoutes from './refund.routes';
+import settlementRoutes from './settlement.routes';
 import routeRoutes from './route.routes';
 import tripRoutes from './trip.routes';
 import userRoutes from './user.routes';
+import walletRoutes from './wallet.routes';
 
 const router = Router();
 
@@ -16,7 +23,14 @@ router.use('/routes', routeRoutes);
 router.use('/buses', busRoutes);
 router.use('/trips', tripRoutes);
 router.use('/bookings', bookingRoutes);
+router.use('/journeys', journeyRoutes);
 router.use('/payments', paymentRoutes);
+router.use('/refunds', refundRoutes);
+router.use('/settlements', settlementRoutes);
+router.use('/ledger', ledgerRoutes);
+router.use('/invoices', invoiceRoutes);
+router.use('/promo-codes', promoCodeRoutes);
+router.use('/wallet', walletRoutes);
 
 // Health check endpoint
 router.get('/health', (_, res) => {
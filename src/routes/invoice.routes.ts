@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { InvoiceController } from '@/controllers/invoice.controller';
+import { authenticate, authorize } from '@/middleware/auth';
+import { validate, validateQuery } from '@/middleware/validation';
+import { invoiceFilterSchema, taxDetailsSchema } from '@/validators';
+
+const router = Router();
+const invoiceController = new InvoiceController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// PAN/VAT number printed on the operator's invoices (operators manage their own)
+router.get('/tax-details', authorize('OPERATOR'), invoiceController.getTaxDetails);
+router.put('/tax-details', authorize('OPERATOR'), validate(taxDetailsSchema), invoiceController.updateTaxDetails);
+
+// Get invoices and credit notes (admins see all, operators their trips, customers their bookings)
+router.get('/', validateQuery(invoiceFilterSchema), invoiceController.getInvoices);
+
+// Get invoice by ID
+router.get('/:id', invoiceController.getInvoiceById);
+
+// Download the invoice as a PDF
+router.get('/:id/pdf', invoiceController.downloadInvoicePdf);
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { JourneyController } from '@/controllers/journey.controller';
+import { authenticate, authorize } from '@/middleware/auth';
+import { validate } from '@/middleware/validation';
+import { idempotent } from '@/middleware/idempotency';
+import { createJourneySchema, cancelJourneySchema } from '@/validators';
+
+const router = Router();
+const journeyController = new JourneyController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get user's journeys
+router.get('/', journeyController.getUserJourneys);
+
+// Book a round trip or connecting trips (customers only)
+router.post('/', authorize('CUSTOMER'), validate(createJourneySchema), idempotent, journeyController.createJourney);
+
+// Get journey by ID, with every leg and the amount due
+router.get('/:id', journeyController.getJourney);
+
+// Cancel the journey, or only the given legs (bookingIds)
+router.put('/:id/cancel', validate(cancelJourneySchema), journeyController.cancelJourney);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { LedgerController } from '@/controllers/ledger.controller';
+import { authenticate, authorize } from '@/middleware/auth';
+import { validateQuery } from '@/middleware/validation';
+import { trialBalanceQuerySchema, paginationSchema } from '@/validators';
+
+const router = Router();
+const ledgerController = new LedgerController();
+
+// Ledger reports are for finance (admin only)
+router.use(authenticate, authorize('ADMIN'));
+
+// Debit and credit totals per account
+router.get('/trial-balance', validateQuery(trialBalanceQuerySchema), ledgerController.getTrialBalance);
+
+// Entries posted to one account
+router.get('/accounts/:code/entries', validateQuery(paginationSchema), ledgerController.getAccountEntries);
+
+export default router;
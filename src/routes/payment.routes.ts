@@ -2,16 +2,27 @@ import { Router } from 'express';
 import { PaymentController } from '@/controllers/payment.controller';
 import { authenticate, authorize } from '@/middleware/auth';
 import { validate, validateQuery } from '@/middleware/validation';
-import { createPaymentSchema, paginationSchema } from '@/validators';
+import { idempotent } from '@/middleware/idempotency';
+import {
+  createPaymentSchema,
+  walletPaymentSchema,
+  paginationSchema,
+  cashPaymentSchema,
+  walkInBookingSchema,
+  cashDrawerQuerySchema,
+  webhookEventFilterSchema,
+  reconciliationItemFilterSchema,
+} from '@/validators';
 
 const router = Router();
 const paymentController = new PaymentController();
 
-// Public routes for payment gateway callbacks
-router.get('/esewa/success/:reference', paymentController.esewaSuccess);
-router.get('/esewa/failure/:reference', paymentController.esewaFailure);
-router.get('/khalti/success/:reference', paymentController.khaltiSuccess);
-router.get('/khalti/failure/:reference', paymentController.khaltiFailure);
+// Public routes for payment gateway callbacks (e.g. /esewa/success/:reference)
+router.get('/:method/success/:reference', paymentController.paymentSuccess);
+router.get('/:method/failure/:reference', paymentController.paymentFailure);
+
+// Public server-to-server notifications from the gateways (e.g. /khalti/webhook), authenticated by signature
+router.post('/:method/webhook', paymentController.handleWebhook);
 
 // Protected routes
 router.use(authenticate);
@@ -20,11 +31,29 @@ router.use(authenticate);
 router.get('/', authorize('ADMIN', 'OPERATOR'), validateQuery(paginationSchema), paymentController.getAllPayments);
 
 // Initiate payment (customers only)
-router.post('/initiate', authorize('CUSTOMER'), validate(createPaymentSchema), paymentController.initiatePayment);
+router.post('/initiate', authorize('CUSTOMER'), validate(createPaymentSchema), idempotent, paymentController.initiatePayment);
+
+// Pay all or part of a booking from the wallet balance (customers only)
+router.post('/wallet', authorize('CUSTOMER'), validate(walletPaymentSchema), idempotent, paymentController.payFromWallet);
+
+// Counter cash payments (operators only)
+router.post('/cash', authorize('OPERATOR'), validate(cashPaymentSchema), idempotent, paymentController.recordCashPayment);
+router.post('/cash/walk-in', authorize('OPERATOR'), validate(walkInBookingSchema), idempotent, paymentController.createWalkInBooking);
+
+// Daily cash drawer reconciliation
+router.get('/cash/drawer', authorize('ADMIN', 'OPERATOR'), validateQuery(cashDrawerQuerySchema), paymentController.getCashDrawerReport);
+
+// Inbound webhook event log (admin only)
+router.get('/webhooks/events', authorize('ADMIN'), validateQuery(webhookEventFilterSchema), paymentController.getWebhookEvents);
+
+// Reconciliation of stuck PENDING payments (admin only)
+router.get('/reconciliation/runs', authorize('ADMIN'), validateQuery(paginationSchema), paymentController.getReconciliationRuns);
+router.post('/reconciliation/runs', authorize('ADMIN'), paymentController.runReconciliation);
+router.get('/reconciliation/runs/:id', authorize('ADMIN'), validateQuery(reconciliationItemFilterSchema), paymentController.getReconciliationRunById);
 
-// Payment verification routes
-router.get('/esewa/verify/:reference', paymentController.verifyEsewaPayment);
-router.post('/khalti/verify/:reference', paymentController.verifyKhaltiPayment);
+// Payment verification routes (e.g. /esewa/verify/:reference)
+router.get('/:method/verify/:reference', paymentController.verifyPayment);
+router.post('/:method/verify/:reference', paymentController.verifyPayment);
 
 // Get payment by ID
 router.get('/:id', paymentController.getPaymentById);
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { PromoCodeController } from '@/controllers/promoCode.controller';
+import { authenticate, authorize } from '@/middleware/auth';
+import { validate, validateQuery } from '@/middleware/validation';
+import {
+  createPromoCodeSchema,
+  updatePromoCodeSchema,
+  validatePromoCodeSchema,
+  promoCodeFilterSchema,
+} from '@/validators';
+
+const router = Router();
+const promoCodeController = new PromoCodeController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Quote a code for a trip before booking
+router.post('/validate', validate(validatePromoCodeSchema), promoCodeController.validatePromoCode);
+
+// Manage promo codes (admins any, operators codes for their own trips)
+router.post('/', authorize('ADMIN', 'OPERATOR'), validate(createPromoCodeSchema), promoCodeController.createPromoCode);
+router.get('/', authorize('ADMIN', 'OPERATOR'), validateQuery(promoCodeFilterSchema), promoCodeController.getPromoCodes);
+router.get('/:id', authorize('ADMIN', 'OPERATOR'), promoCodeController.getPromoCodeById);
+router.put('/:id', authorize('ADMIN', 'OPERATOR'), validate(updatePromoCodeSchema), promoCodeController.updatePromoCode);
+
+export default router;
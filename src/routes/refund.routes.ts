@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { RefundController } from '@/controllers/refund.controller';
+import { authenticate, authorize } from '@/middleware/auth';
+import { validate, validateQuery } from '@/middleware/validation';
+import {
+  refundFilterSchema,
+  rejectRefundSchema,
+  completeRefundSchema,
+  cancellationPolicySchema,
+} from '@/validators';
+
+const router = Router();
+const refundController = new RefundController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Cancellation policies (operators manage their own, anyone can read an operator's)
+router.get('/policy', authorize('OPERATOR'), refundController.getMyCancellationPolicy);
+router.put('/policy', authorize('OPERATOR'), validate(cancellationPolicySchema), refundController.updateCancellationPolicy);
+router.get('/policy/:operatorId', refundController.getCancellationPolicy);
+
+// Get refunds (admins see all, operators their trips, customers their bookings)
+router.get('/', validateQuery(refundFilterSchema), refundController.getRefunds);
+
+// Get refund by ID
+router.get('/:id', refundController.getRefundById);
+
+// Refund approval workflow (admin and the trip's operator)
+router.post('/:id/approve', authorize('ADMIN', 'OPERATOR'), refundController.approveRefund);
+router.post('/:id/reject', authorize('ADMIN', 'OPERATOR'), validate(rejectRefundSchema), refundController.rejectRefund);
+router.post('/:id/complete', authorize('ADMIN', 'OPERATOR'), validate(completeRefundSchema), refundController.completeRefund);
+
+export default router;
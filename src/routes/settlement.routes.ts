@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { SettlementController } from '@/controllers/settlement.controller';
+import { authenticate, authorize } from '@/middleware/auth';
+import { validate, validateQuery } from '@/middleware/validation';
+import {
+  settlementFilterSchema,
+  generateSettlementsSchema,
+  markSettlementPaidSchema,
+  commissionRateSchema,
+} from '@/validators';
+
+const router = Router();
+const settlementController = new SettlementController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Get settlements (admins see all, operators their own)
+router.get('/', authorize('ADMIN', 'OPERATOR'), validateQuery(settlementFilterSchema), settlementController.getSettlements);
+
+// Current payable balance (operators only)
+router.get('/balance', authorize('OPERATOR'), settlementController.getBalance);
+
+// Close settlements for a period (admin only)
+router.post('/', authorize('ADMIN'), validate(generateSettlementsSchema), settlementController.generateSettlements);
+
+// Set an operator's commission rate (admin only)
+router.put('/operators/:operatorId/commission', authorize('ADMIN'), validate(commissionRateSchema), settlementController.setCommissionRate);
+
+// Get settlement by ID
+router.get('/:id', authorize('ADMIN', 'OPERATOR'), settlementController.getSettlementById);
+
+// Record the payout of a settlement (admin only)
+router.post('/:id/pay', authorize('ADMIN'), validate(markSettlementPaidSchema), settlementController.markSettlementPaid);
+
+export default router;
@@ -1,11 +1,26 @@
 import { Router } from 'express';
 import { TripController } from '@/controllers/trip.controller';
+import { BoardingController } from '@/controllers/boarding.controller';
+import { ManifestController } from '@/controllers/manifest.controller';
+import { WaitlistController } from '@/controllers/waitlist.controller';
 import { authenticate, authorize, optionalAuth } from '@/middleware/auth';
 import { validate, validateQuery } from '@/middleware/validation';
-import { createTripSchema, updateTripSchema, tripFilterSchema } from '@/validators';
+import {
+  createTripSchema,
+  updateTripSchema,
+  tripFilterSchema,
+  holdSeatsSchema,
+  releaseSeatsSchema,
+  boardingScanSchema,
+  manifestQuerySchema,
+  joinWaitlistSchema,
+} from '@/validators';
 
 const router = Router();
 const tripController = new TripController();
+const boardingController = new BoardingController();
+const manifestController = new ManifestController();
+const waitlistController = new WaitlistController();
 
 // Public routes with optional auth (to get user ID for personalized results)
 router.get('/', optionalAuth, validateQuery(tripFilterSchema), tripController.getAllTrips);
@@ -24,4 +39,28 @@ router.put('/:id', authorize('ADMIN', 'OPERATOR'), validate(updateTripSchema), t
 // Delete trip (admin and operators)
 router.delete('/:id', authorize('ADMIN', 'OPERATOR'), tripController.deleteTrip);
 
+// Hold seats while filling in passenger details (customers only)
+router.post('/:id/seats/hold', authorize('CUSTOMER'), validate(holdSeatsSchema), tripController.holdSeats);
+
+// Release held seats (customers only)
+router.delete('/:id/seats/hold', authorize('CUSTOMER'), validate(releaseSeatsSchema), tripController.releaseSeats);
+
+// Check passengers in by scanned ticket or booking reference (operators on their own trips)
+router.post('/:id/boardings', authorize('ADMIN', 'OPERATOR'), validate(boardingScanSchema), boardingController.checkIn);
+
+// Boarding status per passenger, with no-shows once the trip has set off
+router.get('/:id/boardings', authorize('ADMIN', 'OPERATOR'), boardingController.getBoardingReport);
+
+// Passenger manifest as JSON, CSV or printable PDF (operators on their own trips)
+router.get('/:id/manifest', authorize('ADMIN', 'OPERATOR'), validateQuery(manifestQuerySchema), manifestController.getManifest);
+
+// Wait for seats on a sold-out trip (customers only)
+router.post('/:id/waitlist', authorize('CUSTOMER'), validate(joinWaitlistSchema), waitlistController.join);
+
+// Customer's place in the queue, or the whole queue for admin and operators
+router.get('/:id/waitlist', waitlistController.getWaitlist);
+
+// Leave the waitlist (customers only)
+router.delete('/:id/waitlist', authorize('CUSTOMER'), waitlistController.leave);
+
 export default router;
@@ -1,8 +1,8 @@
 import { Router } from 'express';
 import { UserController } from '@/controllers/user.controller';
 import { authenticate, authorize } from '@/middleware/auth';
-import { validate } from '@/middleware/validation';
-import { updateUserSchema } from '@/validators';
+import { validate, validateQuery } from '@/middleware/validation';
+import { updateUserSchema, loyaltyStatementFilterSchema } from '@/validators';
 
 const router = Router();
 const userController = new UserController();
@@ -16,6 +16,12 @@ router.get('/', authorize('ADMIN'), userController.getAllUsers);
 // Get user statistics (admin only)
 router.get('/stats', authorize('ADMIN'), userController.getUserStats);
 
+// Your loyalty points balance, tier and perks
+router.get('/me/loyalty', userController.getLoyaltySummary);
+
+// Your loyalty points statement, newest first
+router.get('/me/loyalty/statement', validateQuery(loyaltyStatementFilterSchema), userController.getLoyaltyStatement);
+
 // Get user by ID (admin or self)
 router.get('/:id', userController.getUserById);
 
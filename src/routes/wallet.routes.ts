@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { WalletController } from '@/controllers/wallet.controller';
+import { authenticate } from '@/middleware/auth';
+import { validateQuery } from '@/middleware/validation';
+import { walletTransactionFilterSchema } from '@/validators';
+
+const router = Router();
+const walletController = new WalletController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Current wallet balance
+router.get('/', walletController.getWallet);
+
+// Balance history, newest first
+router.get('/transactions', validateQuery(walletTransactionFilterSchema), walletController.getTransactions);
+
+export default router;
@@ -7,6 +7,12 @@ import config from '@/config';
 import routes from '@/routes';
 import { errorHandler, notFoundHandler } from '@/middleware/error';
 import { pricingScheduler } from '@/services/pricing.scheduler';
+import { seatHoldScheduler } from '@/services/seatHold.scheduler';
+import { bookingExpiryScheduler } from '@/services/bookingExpiry.scheduler';
+import { idempotencyScheduler } from '@/services/idempotency.scheduler';
+import { reconciliationScheduler } from '@/services/reconciliation.scheduler';
+import { loyaltyExpiryScheduler } from '@/services/loyaltyExpiry.scheduler';
+import { waitlistScheduler } from '@/services/waitlist.scheduler';
 
 const app = express();
 
@@ -35,8 +41,15 @@ const limiter = rateLimit({
 app.use('/api/', limiter);
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+// Keep the raw body of gateway webhooks, their signatures cover the exact bytes
+const captureRawBody = (req: express.Request, _res: express.Response, buf: Buffer) => {
+  if (req.originalUrl.includes('/webhook')) {
+    req.rawBody = buf;
+  }
+};
+
+app.use(express.json({ limit: '10mb', verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, limit: '10mb', verify: captureRawBody }));
 
 // Logging middleware
 if (config.nodeEnv !== 'test') {
@@ -71,6 +84,24 @@ const server = app.listen(PORT, () => {
   if (config.nodeEnv !== 'test') {
     console.log('💰 Starting dynamic pricing scheduler...');
     pricingScheduler.start();
+
+    console.log('💺 Starting seat hold sweeper...');
+    seatHoldScheduler.start();
+
+    console.log('⏳ Starting unpaid booking expiry...');
+    bookingExpiryScheduler.start();
+
+    console.log('🔑 Starting idempotency key cleanup...');
+    idempotencyScheduler.start();
+
+    console.log('🔄 Starting payment reconciliation...');
+    reconciliationScheduler.start();
+
+    console.log('🎁 Starting loyalty points expiry...');
+    loyaltyExpiryScheduler.start();
+
+    console.log('⏳ Starting waitlist offers...');
+    waitlistScheduler.start();
   }
 });
 
@@ -78,8 +109,14 @@ const server = app.listen(PORT, () => {
 process.on('SIGTERM', () => {
   console.log('🛑 SIGTERM received, shutting down gracefully');
   
-  // Stop pricing scheduler
+  // Stop background schedulers
   pricingScheduler.stop();
+  seatHoldScheduler.stop();
+  bookingExpiryScheduler.stop();
+  idempotencyScheduler.stop();
+  reconciliationScheduler.stop();
+  loyaltyExpiryScheduler.stop();
+  waitlistScheduler.stop();
   
   server.close(() => {
     console.log('💀 Process terminated');
@@ -89,8 +126,14 @@ process.on('SIGTERM', () => {
 process.on('SIGINT', () => {
   console.log('🛑 SIGINT received, shutting down gracefully');
   
-  // Stop pricing scheduler
+  // Stop background schedulers
   pricingScheduler.stop();
+  seatHoldScheduler.stop();
+  bookingExpiryScheduler.stop();
+  idempotencyScheduler.stop();
+  reconciliationScheduler.stop();
+  loyaltyExpiryScheduler.stop();
+  waitlistScheduler.stop();
   
   server.close(() => {
     console.log('💀 Process terminated');
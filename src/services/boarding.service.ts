@@ -0,0 +1,231 @@
+import prisma from '@/config/database';
+import { NotFoundError, BadRequestError, ForbiddenError, ConflictError } from '@/utils/errors';
+import { BoardingScanRequest, PassengerDetails } from '@/types';
+import { verifyTicketCode } from '@/utils/ticketSignature';
+import { isUniqueViolation } from '@/utils/transaction';
+import { BoardingStatus, UserRole } from '@prisma/client';
+
+const DEPARTED_STATUSES = ['IN_PROGRESS', 'COMPLETED'];
+
+export class BoardingService {
+  /**
+   * Check passengers in from a scanned ticket QR code or a booking reference.
+   * Boards the given seats, or every seat on the booking.
+   */
+  async checkIn(tripId: string, data: BoardingScanRequest, userRole: UserRole, userId: string) {
+    const trip = await this.getManageableTrip(tripId, userRole, userId);
+
+    if (trip.status !== 'SCHEDULED' && trip.status !== 'IN_PROGRESS') {
+      throw new BadRequestError('Boarding is closed for this trip');
+    }
+
+    let bookingWhere: { id: string } | { bookingReference: string };
+
+    if (data.code) {
+      const ticket = verifyTicketCode(data.code);
+
+      if (ticket.tid !== tripId) {
+        throw new BadRequestError('Ticket is for a different trip');
+      }
+
+      bookingWhere = { id: ticket.bid };
+    } else {
+      bookingWhere = { bookingReference: data.bookingReference as string };
+    }
+
+    const booking = await prisma.booking.findUnique({
+      where: bookingWhere,
+    });
+
+    if (!booking) {
+      throw new NotFoundError('Booking not found');
+    }
+
+    if (booking.tripId !== tripId) {
+      throw new BadRequestError('Booking is for a different trip');
+    }
+
+    if (booking.status !== 'CONFIRMED') {
+      throw new BadRequestError(`Booking is ${booking.status.toLowerCase()}`);
+    }
+
+    const seatNumbers = data.seatNumbers || booking.seatNumbers;
+    const unknownSeats = seatNumbers.filter(seat => !booking.seatNumbers.includes(seat));
+    if (unknownSeats.length > 0) {
+      throw new BadRequestError(`Seats ${unknownSeats.join(', ')} are not on this booking`);
+    }
+
+    const passengers = booking.passengerDetails as unknown as PassengerDetails[];
+    const boardedAt = new Date();
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        const alreadyBoarded = await tx.passengerBoarding.findMany({
+          where: {
+            bookingId: booking.id,
+            seatNumber: { in: seatNumbers },
+            status: 'BOARDED',
+          },
+        });
+
+        if (alreadyBoarded.length > 0) {
+          throw new ConflictError(
+            `Seats ${alreadyBoarded.map(boarding => boarding.seatNumber).join(', ')} have already boarded`
+          );
+        }
+
+        for (const seatNumber of seatNumbers) {
+          // Passengers marked as no-shows can still board late
+          const lateBoarding = await tx.passengerBoarding.updateMany({
+            where: {
+              bookingId: booking.id,
+              seatNumber,
+              status: 'NO_SHOW',
+            },
+            data: {
+              status: 'BOARDED',
+              boardedAt,
+              scannedById: userId,
+            },
+          });
+
+          if (lateBoarding.count === 0) {
+            await tx.passengerBoarding.create({
+              data: {
+                tripId,
+                bookingId: booking.id,
+                seatNumber,
+                passengerName: passengers.find(passenger => passenger.seatNumber === seatNumber)?.name || '',
+                status: 'BOARDED',
+                boardedAt,
+                scannedById: userId,
+              },
+            });
+          }
+        }
+      });
+    } catch (error) {
+      // A second scanner checked the same seat in at the same moment
+      if (isUniqueViolation(error)) {
+        throw new ConflictError('Passenger has already boarded');
+      }
+      throw error;
+    }
+
+    return {
+      bookingId: booking.id,
+      bookingReference: booking.bookingReference,
+      boardedSeats: seatNumbers,
+      boardedAt,
+      passengers: (await this.getTripPassengers(tripId)).filter(passenger => passenger.bookingId === booking.id),
+    };
+  }
+
+  /**
+   * Who has boarded so far. No-shows are reported once the trip has set off.
+   */
+  async getBoardingReport(tripId: string, userRole: UserRole, userId: string) {
+    const trip = await this.getManageableTrip(tripId, userRole, userId);
+    const passengers = await this.getTripPassengers(tripId);
+
+    return {
+      trip: {
+        id: trip.id,
+        status: trip.status,
+        departureTime: trip.departureTime,
+      },
+      summary: {
+        totalPassengers: passengers.length,
+        boarded: passengers.filter(passenger => passenger.boardingStatus === 'BOARDED').length,
+        noShows: passengers.filter(passenger => passenger.boardingStatus === 'NO_SHOW').length,
+        notBoarded: passengers.filter(passenger => passenger.boardingStatus === null).length,
+      },
+      passengers,
+      noShows: DEPARTED_STATUSES.includes(trip.status)
+        ? passengers.filter(passenger => passenger.boardingStatus === 'NO_SHOW')
+        : [],
+    };
+  }
+
+  /**
+   * Passengers of a trip's confirmed and completed bookings in seat order, with
+   * their boarding status (null while not yet boarded)
+   */
+  async getTripPassengers(tripId: string) {
+    const bookings = await prisma.booking.findMany({
+      where: {
+        tripId,
+        status: {
+          in: ['CONFIRMED', 'COMPLETED'],
+        },
+      },
+      include: {
+        boardings: true,
+      },
+    });
+
+    const passengers = bookings.flatMap(booking =>
+      (booking.passengerDetails as unknown as PassengerDetails[]).map(passenger => {
+        const boarding = booking.boardings.find(b => b.seatNumber === passenger.seatNumber);
+
+        return {
+          seatNumber: passenger.seatNumber,
+          name: passenger.name,
+          phone: passenger.phone,
+          bookingId: booking.id,
+          bookingReference: booking.bookingReference,
+          boardingStatus: (boarding ? boarding.status : null) as BoardingStatus | null,
+          boardedAt: boarding ? boarding.boardedAt : null,
+        };
+      })
+    );
+
+    return passengers.sort((a, b) => a.seatNumber.localeCompare(b.seatNumber, undefined, { numeric: true }));
+  }
+
+  /**
+   * Record every passenger who has not boarded as a no-show; run when the trip sets off
+   */
+  async markNoShows(tripId: string) {
+    const passengers = await this.getTripPassengers(tripId);
+    const missing = passengers.filter(passenger => passenger.boardingStatus === null);
+
+    const created = await prisma.passengerBoarding.createMany({
+      data: missing.map(passenger => ({
+        tripId,
+        bookingId: passenger.bookingId,
+        seatNumber: passenger.seatNumber,
+        passengerName: passenger.name,
+        status: 'NO_SHOW' as const,
+      })),
+      skipDuplicates: true,
+    });
+
+    return created.count;
+  }
+
+  private async getManageableTrip(tripId: string, userRole: UserRole, userId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: {
+        operator: {
+          select: {
+            userId: true,
+          },
+        },
+      },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    if (userRole !== 'ADMIN' && trip.operator.userId !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    return trip;
+  }
+}
+
+export const boardingService = new BoardingService();
@@ -1,9 +1,18 @@
 import prisma from '@/config/database';
-import { NotFoundError, ConflictError, ForbiddenError, BadRequestError } from '@/utils/errors';
+import { NotFoundError, ConflictError, ForbiddenError, BadRequestError, SeatConflictError } from '@/utils/errors';
 import { validatePagination, paginationHelper } from '@/utils/response';
-import { CreateBookingRequest } from '@/types';
-import { generateBookingReference } from '@/utils/auth';
-import { UserRole } from '@prisma/client';
+import { CancelJourneyRequest, CreateBookingRequest, ModifyBookingRequest, PassengerDetails, RefundQuote } from '@/types';
+import { generateBookingReference, addMinutes } from '@/utils/auth';
+import { calculateFare, percentOf } from '@/utils/money';
+import config from '@/config';
+import { BookingModification, Prisma, RefundDestination, UserRole } from '@prisma/client';
+import { seatHoldService } from '@/services/seatHold.service';
+import { bookingBalanceService } from '@/services/bookingBalance.service';
+import { refundService, fullRefund } from '@/services/refund.service';
+import { promoCodeService } from '@/services/promoCode.service';
+import { loyaltyService } from '@/services/loyalty.service';
+import { waitlistService } from '@/services/waitlist.service';
+import { runSerializable } from '@/utils/transaction';
 
 export class BookingService {
   async getAllBookings(
@@ -171,6 +180,18 @@ export class BookingService {
             createdAt: true,
           },
         },
+        modifications: {
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+        journey: {
+          select: {
+            id: true,
+            type: true,
+            journeyReference: true,
+          },
+        },
       },
     });
 
@@ -194,18 +215,42 @@ export class BookingService {
   }
 
   async createBooking(data: CreateBookingRequest, userId: string) {
-    const { tripId, seatNumbers, passengerDetails } = data;
+    // Seat checks, booking insert and seat counter update commit together or not at all
+    return await runSerializable((tx) => this.createBookingInTransaction(tx, data, userId));
+  }
+
+  /**
+   * Create a PENDING booking inside the caller's transaction, which should be
+   * SERIALIZABLE (see runSerializable). A leg of a journey takes the journey's
+   * discount off its fare.
+   */
+  async createBookingInTransaction(
+    tx: Prisma.TransactionClient,
+    data: CreateBookingRequest,
+    userId: string,
+    journey?: { id: string; discountPercent: number }
+  ) {
+    const { tripId, seatNumbers, passengerDetails, promoCode, redeemPoints } = data;
+
+    // Validate passenger details match seat numbers
+    if (passengerDetails.length !== seatNumbers.length) {
+      throw new BadRequestError('Passenger details must match number of seats');
+    }
+
+    // Validate seat numbers in passenger details
+    const passengerSeatNumbers = passengerDetails.map(p => p.seatNumber);
+    const mismatchedSeats = seatNumbers.filter(seat => !passengerSeatNumbers.includes(seat));
+    if (mismatchedSeats.length > 0) {
+      throw new BadRequestError('Seat numbers in passenger details do not match requested seats');
+    }
+
+    // Seats set aside by a waitlist offer go back on the trip for this booking to take
+    const waitlistEntry = await waitlistService.claimForBooking(tx, tripId, userId);
 
     // Verify trip exists and is available
-    const trip = await prisma.trip.findUnique({
+    const trip = await tx.trip.findUnique({
       where: { id: tripId },
       include: {
-        bus: {
-          select: {
-            totalSeats: true,
-            seatLayout: true,
-          },
-        },
         bookings: {
           where: {
             status: {
@@ -238,33 +283,56 @@ export class BookingService {
 
     const unavailableSeats = seatNumbers.filter(seat => bookedSeats.includes(seat));
     if (unavailableSeats.length > 0) {
-      throw new ConflictError(`Seats ${unavailableSeats.join(', ')} are already booked`);
+      throw new SeatConflictError(unavailableSeats, `Seats ${unavailableSeats.join(', ')} are already booked`);
     }
 
-    // Validate passenger details match seat numbers
-    if (passengerDetails.length !== seatNumbers.length) {
-      throw new BadRequestError('Passenger details must match number of seats');
+    // Check that no other customer is holding the requested seats
+    const heldSeats = await seatHoldService.getHeldSeatNumbers(tripId, userId, tx);
+    const contestedSeats = seatNumbers.filter(seat => heldSeats.includes(seat));
+    if (contestedSeats.length > 0) {
+      throw new SeatConflictError(contestedSeats, `Seats ${contestedSeats.join(', ')} are currently held by another customer`);
     }
 
-    // Validate seat numbers in passenger details
-    const passengerSeatNumbers = passengerDetails.map(p => p.seatNumber);
-    const mismatchedSeats = seatNumbers.filter(seat => !passengerSeatNumbers.includes(seat));
-    if (mismatchedSeats.length > 0) {
-      throw new BadRequestError('Seat numbers in passenger details do not match requested seats');
+    if (trip.availableSeats < seatNumbers.length) {
+      throw new ConflictError('Not enough seats available on this trip');
     }
 
-    // Calculate total amount
-    const totalAmount = seatNumbers.length * trip.price;
+    // Checked in this transaction so concurrent checkouts cannot exceed the code's usage limits
+    const promo = promoCode
+      ? await promoCodeService.applyPromoCode(tx, promoCode, userId, trip, seatNumbers.length)
+      : null;
+
+    const promoDiscount = promo ? promo.discountAmount : 0;
+
+    // Points pay for what the promo code leaves of the fare
+    const pointsDiscount = redeemPoints
+      ? loyaltyService.quoteRedemption(redeemPoints, trip.price * seatNumbers.length - promoDiscount)
+      : 0;
+
+    const journeyDiscount = journey ? percentOf(trip.price * seatNumbers.length, journey.discountPercent) : 0;
+
+    const fare = calculateFare(trip.price, seatNumbers.length, promoDiscount + pointsDiscount + journeyDiscount);
+
+    // Unpaid bookings are released at the payment deadline, never later than departure
+    const paymentDeadline = addMinutes(new Date(), config.booking.paymentTimeoutMinutes);
+    const expiresAt = paymentDeadline < trip.departureTime ? paymentDeadline : trip.departureTime;
 
     // Create booking
-    const booking = await prisma.booking.create({
+    const booking = await tx.booking.create({
       data: {
         userId,
         tripId,
         seatNumbers,
-        totalAmount,
+        baseFare: fare.baseFare,
+        discountAmount: fare.discountAmount,
+        serviceFee: fare.serviceFee,
+        vatAmount: fare.vatAmount,
+        totalAmount: fare.totalAmount,
+        pointsRedeemed: redeemPoints || 0,
+        journeyId: journey?.id,
         passengerDetails,
         bookingReference: generateBookingReference(),
+        expiresAt,
       },
       include: {
         trip: {
@@ -305,9 +373,32 @@ export class BookingService {
       },
     });
 
-    // Update trip available seats
-    await prisma.trip.update({
-      where: { id: tripId },
+    if (promo) {
+      await promoCodeService.recordRedemption(tx, promo.promoCode.id, userId, booking.id, promoDiscount);
+    }
+
+    if (redeemPoints) {
+      await loyaltyService.redeem(tx, userId, redeemPoints, booking.id, booking.bookingReference);
+    }
+
+    if (waitlistEntry) {
+      await tx.waitlistEntry.update({
+        where: { id: waitlistEntry.id },
+        data: { bookingId: booking.id },
+      });
+    }
+
+    // One reservation row per seat; the database rejects a seat sold twice
+    await seatHoldService.claimSeatsForBooking(tx, tripId, seatNumbers, userId, booking.id);
+
+    // Update trip available seats, refusing to drive the counter negative
+    const seatUpdate = await tx.trip.updateMany({
+      where: {
+        id: tripId,
+        availableSeats: {
+          gte: seatNumbers.length,
+        },
+      },
       data: {
         availableSeats: {
           decrement: seatNumbers.length,
@@ -315,10 +406,24 @@ export class BookingService {
       },
     });
 
+    if (seatUpdate.count === 0) {
+      throw new ConflictError('Not enough seats available on this trip');
+    }
+
     return booking;
   }
 
-  async cancelBooking(bookingId: string, userId?: string, userRole?: UserRole) {
+  /**
+   * Cancel a booking. A confirmed booking is refunded under the operator's policy,
+   * to the original payment method or as wallet credit; anything paid towards a
+   * booking that was never confirmed goes back to the wallet in full.
+   */
+  async cancelBooking(
+    bookingId: string,
+    userId?: string,
+    userRole?: UserRole,
+    refundTo: RefundDestination = 'ORIGINAL_METHOD'
+  ) {
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
       include: {
@@ -326,6 +431,7 @@ export class BookingService {
           select: {
             id: true,
             departureTime: true,
+            operatorId: true,
             operator: {
               select: {
                 userId: true,
@@ -333,9 +439,9 @@ export class BookingService {
             },
           },
         },
-        payments: {
+        modifications: {
           where: {
-            status: 'COMPLETED',
+            status: 'AWAITING_PAYMENT',
           },
         },
       },
@@ -357,6 +463,10 @@ export class BookingService {
       }
     }
 
+    if (booking.journeyId) {
+      throw new BadRequestError('Booking is part of a journey; cancel it through the journey');
+    }
+
     if (booking.status === 'CANCELLED') {
       throw new BadRequestError('Booking is already cancelled');
     }
@@ -365,70 +475,939 @@ export class BookingService {
       throw new BadRequestError('Cannot cancel completed booking');
     }
 
-    // Check if trip has already started (cannot cancel within 2 hours of departure)
-    const twoHoursBeforeDeparture = new Date(booking.trip.departureTime.getTime() - 2 * 60 * 60 * 1000);
-    if (new Date() > twoHoursBeforeDeparture) {
-      throw new BadRequestError('Cannot cancel booking within 2 hours of departure');
+    const now = new Date();
+    if (booking.trip.departureTime <= now) {
+      throw new BadRequestError('Cannot cancel booking after departure');
     }
 
-    // Update booking status
-    const updatedBooking = await prisma.booking.update({
+    const quote = await this.cancellationQuote(prisma, booking, now);
+
+    const cancelledBooking = await prisma.$transaction(async (tx) => {
+      // Settled first, while the booking still counts towards what has been paid for
+      for (const change of booking.modifications) {
+        await this.dropPendingChange(tx, change, 'CANCELLED', 'Booking cancelled before the fare difference was paid');
+      }
+
+      // Guard against a concurrent cancellation releasing the seats twice
+      const cancelled = await tx.booking.updateMany({
+        where: {
+          id: bookingId,
+          status: {
+            in: ['PENDING', 'CONFIRMED'],
+          },
+        },
+        data: {
+          status: 'CANCELLED',
+        },
+      });
+
+      if (cancelled.count === 0) {
+        throw new BadRequestError('Booking is already cancelled');
+      }
+
+      await this.releaseBookingInventory(tx, booking);
+      await loyaltyService.restoreRedeemed(tx, booking);
+
+      const payments = await refundService.getRefundablePayments(tx, bookingId);
+
+      if (booking.status === 'PENDING') {
+        await refundService.returnPaymentsToWallet(tx, bookingId, payments, 'Booking cancelled', userId);
+      } else {
+        // Payments are returned through refunds awaiting approval, or at once as wallet credit
+        await refundService.requestRefundsForPayments(tx, bookingId, payments, quote, 'Booking cancelled', refundTo, userId);
+      }
+
+      return await tx.booking.findUniqueOrThrow({
+        where: { id: bookingId },
+        include: {
+          trip: {
+            select: {
+              id: true,
+              departureTime: true,
+              arrivalTime: true,
+              price: true,
+              bus: {
+                select: {
+                  id: true,
+                  busNumber: true,
+                  busType: true,
+                },
+              },
+              route: {
+                select: {
+                  id: true,
+                  origin: true,
+                  destination: true,
+                },
+              },
+            },
+          },
+          payments: true,
+          refunds: true,
+        },
+      });
+    });
+
+    await this.offerToWaitlist(booking.tripId);
+
+    return cancelledBooking;
+  }
+
+  /**
+   * Cancel some of a confirmed booking's seats and keep the rest. The cancelled
+   * seats' share of the total is refunded under the same policy as a full
+   * cancellation; cancelling every seat cancels the booking.
+   */
+  async cancelSeats(
+    bookingId: string,
+    seatNumbers: string[],
+    userId: string,
+    userRole: UserRole,
+    refundTo: RefundDestination = 'ORIGINAL_METHOD'
+  ) {
+    const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
-      data: {
-        status: 'CANCELLED',
-      },
       include: {
         trip: {
           select: {
-            id: true,
             departureTime: true,
-            arrivalTime: true,
-            price: true,
-            bus: {
+            operatorId: true,
+            operator: {
               select: {
-                id: true,
-                busNumber: true,
-                busType: true,
+                userId: true,
               },
             },
-            route: {
+          },
+        },
+      },
+    });
+
+    if (!booking) {
+      throw new NotFoundError('Booking not found');
+    }
+
+    const canCancel =
+      userRole === 'ADMIN' ||
+      booking.userId === userId ||
+      (userRole === 'OPERATOR' && booking.trip.operator.userId === userId);
+
+    if (!canCancel) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    if (booking.journeyId) {
+      throw new BadRequestError('Seats cannot be cancelled from a journey leg; cancel the leg through the journey');
+    }
+
+    const unknownSeats = seatNumbers.filter(seat => !booking.seatNumbers.includes(seat));
+    if (unknownSeats.length > 0) {
+      throw new BadRequestError(`Seats ${unknownSeats.join(', ')} are not on this booking`);
+    }
+
+    if (seatNumbers.length === booking.seatNumbers.length) {
+      return await this.cancelBooking(bookingId, userId, userRole, refundTo);
+    }
+
+    const now = new Date();
+    const quote = await this.cancellationQuote(prisma, booking, now);
+
+    const updatedBooking = await runSerializable(async (tx) => {
+      // Re-read inside the transaction; the booking may have changed since
+      const current = await tx.booking.findUniqueOrThrow({
+        where: { id: bookingId },
+        include: {
+          trip: {
+            select: {
+              departureTime: true,
+            },
+          },
+          boardings: {
+            where: {
+              seatNumber: { in: seatNumbers },
+              status: 'BOARDED',
+            },
+            select: {
+              seatNumber: true,
+            },
+          },
+          modifications: {
+            where: {
+              status: 'AWAITING_PAYMENT',
+            },
+            select: {
+              id: true,
+            },
+          },
+        },
+      });
+
+      if (current.status !== 'CONFIRMED') {
+        throw new BadRequestError('Seats can only be cancelled from a confirmed booking');
+      }
+
+      if (current.modifications.length > 0) {
+        throw new BadRequestError('A change to this booking is awaiting payment');
+      }
+
+      if (current.trip.departureTime <= now) {
+        throw new BadRequestError('Cannot cancel booking after departure');
+      }
+
+      if (current.boardings.length > 0) {
+        throw new BadRequestError(
+          `Seats ${current.boardings.map(boarding => boarding.seatNumber).join(', ')} have already boarded`
+        );
+      }
+
+      const keptSeats = current.seatNumbers.filter(seat => !seatNumbers.includes(seat));
+      if (keptSeats.length === 0 || keptSeats.length + seatNumbers.length !== current.seatNumbers.length) {
+        throw new ConflictError('Booking seats changed; please try again');
+      }
+
+      const passengers = current.passengerDetails as unknown as PassengerDetails[];
+
+      // The discount is shared across seats, so the kept seats keep their part of it
+      const fare = calculateFare(
+        current.baseFare,
+        keptSeats.length,
+        Math.round((current.discountAmount * keptSeats.length) / current.seatNumbers.length)
+      );
+
+      await tx.booking.update({
+        where: { id: bookingId },
+        data: {
+          seatNumbers: keptSeats,
+          passengerDetails: passengers
+            .filter(passenger => keptSeats.includes(passenger.seatNumber)) as unknown as Prisma.InputJsonArray,
+          discountAmount: fare.discountAmount,
+          serviceFee: fare.serviceFee,
+          vatAmount: fare.vatAmount,
+          totalAmount: fare.totalAmount,
+        },
+      });
+
+      await tx.trip.update({
+        where: { id: current.tripId },
+        data: {
+          availableSeats: {
+            increment: seatNumbers.length,
+          },
+        },
+      });
+
+      await seatHoldService.releaseBookingSeats(bookingId, tx, seatNumbers);
+
+      await tx.bookingModification.create({
+        data: {
+          bookingId,
+          type: 'SEAT_CANCELLATION',
+          fromTripId: current.tripId,
+          toTripId: current.tripId,
+          fromSeats: current.seatNumbers,
+          toSeats: keptSeats,
+          previousTotal: current.totalAmount,
+          newTotal: fare.totalAmount,
+          fareDifference: fare.totalAmount - current.totalAmount,
+          requestedById: userId,
+        },
+      });
+
+      await refundService.refundAcrossPayments(
+        tx,
+        bookingId,
+        current.totalAmount - fare.totalAmount,
+        quote,
+        `Seats ${seatNumbers.join(', ')} cancelled`,
+        refundTo,
+        userId
+      );
+
+      return await tx.booking.findUniqueOrThrow({
+        where: { id: bookingId },
+        include: {
+          trip: {
+            select: {
+              id: true,
+              departureTime: true,
+              arrivalTime: true,
+              price: true,
+              bus: {
+                select: {
+                  id: true,
+                  busNumber: true,
+                  busType: true,
+                },
+              },
+              route: {
+                select: {
+                  id: true,
+                  origin: true,
+                  destination: true,
+                },
+              },
+            },
+          },
+          payments: true,
+          refunds: true,
+        },
+      });
+    });
+
+    await this.offerToWaitlist(booking.tripId);
+
+    return updatedBooking;
+  }
+
+  /**
+   * Cancel some legs of a journey, or every leg not yet travelled. Each paid leg
+   * is refunded under the policy for its own departure. Connecting legs are only
+   * cancelled together, and a round trip that keeps one leg loses its discount,
+   * which is withheld from the refund. An unpaid journey is cancelled as a whole
+   * and anything paid towards it goes back to the wallet.
+   */
+  async cancelJourneyLegs(journeyId: string, data: CancelJourneyRequest, userId: string, userRole: UserRole) {
+    const { bookingIds, refundTo = 'ORIGINAL_METHOD' } = data;
+
+    const journey = await prisma.journey.findUnique({
+      where: { id: journeyId },
+      include: {
+        bookings: {
+          include: {
+            trip: {
               select: {
                 id: true,
-                origin: true,
-                destination: true,
+                departureTime: true,
+                operatorId: true,
+                operator: {
+                  select: {
+                    userId: true,
+                  },
+                },
               },
             },
           },
         },
-        payments: true,
       },
     });
 
-    // Update trip available seats
-    await prisma.trip.update({
-      where: { id: booking.tripId },
-      data: {
-        availableSeats: {
-          increment: booking.seatNumbers.length,
+    if (!journey) {
+      throw new NotFoundError('Journey not found');
+    }
+
+    const canCancel =
+      userRole === 'ADMIN' ||
+      journey.userId === userId ||
+      (userRole === 'OPERATOR' && journey.bookings.every(leg => leg.trip.operator.userId === userId));
+
+    if (!canCancel) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    const now = new Date();
+    const openLegs = journey.bookings.filter(leg =>
+      (leg.status === 'PENDING' || leg.status === 'CONFIRMED') && leg.trip.departureTime > now
+    );
+
+    let legs = openLegs;
+
+    if (bookingIds) {
+      const unknownLegs = bookingIds.filter(id => !journey.bookings.some(leg => leg.id === id));
+      if (unknownLegs.length > 0) {
+        throw new BadRequestError(`Bookings ${unknownLegs.join(', ')} are not part of this journey`);
+      }
+
+      legs = journey.bookings.filter(leg => bookingIds.includes(leg.id));
+
+      const closedLegs = legs.filter(leg => !openLegs.includes(leg));
+      if (closedLegs.length > 0) {
+        throw new BadRequestError(
+          `Bookings ${closedLegs.map(leg => leg.bookingReference).join(', ')} are cancelled, completed or departed`
+        );
+      }
+    }
+
+    if (legs.length === 0) {
+      throw new BadRequestError('Journey has no legs left to cancel');
+    }
+
+    const isUnpaid = legs.some(leg => leg.status === 'PENDING');
+
+    if (legs.length < openLegs.length) {
+      if (isUnpaid) {
+        throw new BadRequestError('An unpaid journey can only be cancelled as a whole');
+      }
+
+      if (journey.type === 'MULTI_LEG') {
+        throw new BadRequestError('Connecting legs can only be cancelled together');
+      }
+    }
+
+    // A round trip travelled one way only is repriced without the discount
+    const keptLegs = journey.bookings.filter(leg => leg.status !== 'CANCELLED' && !legs.includes(leg));
+    let discountOwed = journey.type === 'ROUND_TRIP'
+      ? keptLegs.reduce(
+        (sum, leg) => sum + calculateFare(leg.baseFare, leg.seatNumbers.length).totalAmount - leg.totalAmount,
+        0
+      )
+      : 0;
+
+    const quotes = new Map<string, (amount: number) => RefundQuote>();
+    for (const leg of legs) {
+      quotes.set(leg.id, await this.cancellationQuote(prisma, leg, now));
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const leg of legs) {
+        // Guard against a concurrent cancellation releasing the seats twice
+        const cancelled = await tx.booking.updateMany({
+          where: {
+            id: leg.id,
+            status: {
+              in: ['PENDING', 'CONFIRMED'],
+            },
+          },
+          data: {
+            status: 'CANCELLED',
+          },
+        });
+
+        if (cancelled.count === 0) {
+          throw new BadRequestError(`Booking ${leg.bookingReference} is already cancelled`);
+        }
+
+        await this.releaseBookingInventory(tx, leg);
+        await loyaltyService.restoreRedeemed(tx, leg);
+      }
+
+      if (isUnpaid) {
+        const payments = await refundService.getRefundablePayments(tx, legs[0].id);
+        await refundService.returnPaymentsToWallet(tx, legs[0].id, payments, 'Journey cancelled', userId);
+        return;
+      }
+
+      for (const leg of legs) {
+        const policyQuote = quotes.get(leg.id) as (amount: number) => RefundQuote;
+
+        const quote = (amount: number): RefundQuote => {
+          const { refundPercent, refundAmount, cancellationFee } = policyQuote(amount);
+          const discountWithheld = Math.min(discountOwed, refundAmount);
+          discountOwed -= discountWithheld;
+
+          return {
+            refundPercent,
+            refundAmount: refundAmount - discountWithheld,
+            cancellationFee: cancellationFee + discountWithheld,
+          };
+        };
+
+        await refundService.refundAcrossPayments(
+          tx,
+          leg.id,
+          leg.totalAmount,
+          quote,
+          `Journey ${journey.journeyReference} cancelled`,
+          refundTo,
+          userId
+        );
+      }
+    });
+
+    for (const leg of legs) {
+      await this.offerToWaitlist(leg.tripId);
+    }
+
+    return legs.map(leg => leg.id);
+  }
+
+  /**
+   * Change a confirmed booking's seats, or move it to another departure of the
+   * same route and operator. A trip change is repriced at the new trip's fare;
+   * a seat change keeps the fare paid. A cheaper change applies at once and
+   * the difference is refunded. A dearer one only sets the new seats aside:
+   * the booking keeps its seats until the difference is paid, and keeps them
+   * for good if it is not paid in time.
+   */
+  async modifyBooking(bookingId: string, data: ModifyBookingRequest, userId: string, userRole: UserRole) {
+    const { seatNumbers, refundTo = 'ORIGINAL_METHOD' } = data;
+
+    const result = await runSerializable(async (tx) => {
+      const booking = await tx.booking.findUnique({
+        where: { id: bookingId },
+        include: {
+          trip: true,
+          boardings: {
+            where: {
+              status: 'BOARDED',
+            },
+            select: {
+              id: true,
+            },
+          },
+          modifications: {
+            where: {
+              status: 'AWAITING_PAYMENT',
+            },
+            select: {
+              id: true,
+            },
+          },
+        },
+      });
+
+      if (!booking) {
+        throw new NotFoundError('Booking not found');
+      }
+
+      if (userRole !== 'ADMIN' && booking.userId !== userId) {
+        throw new ForbiddenError('Access denied');
+      }
+
+      if (booking.journeyId) {
+        throw new BadRequestError('Journey legs cannot be changed');
+      }
+
+      if (booking.status !== 'CONFIRMED') {
+        throw new BadRequestError('Only confirmed bookings can be changed');
+      }
+
+      const now = new Date();
+      if (booking.trip.status !== 'SCHEDULED' || booking.trip.departureTime <= now) {
+        throw new BadRequestError('Cannot change booking after departure');
+      }
+
+      if (booking.boardings.length > 0) {
+        throw new BadRequestError('Cannot change booking once passengers have boarded');
+      }
+
+      if (booking.modifications.length > 0) {
+        throw new BadRequestError('A change to this booking is awaiting payment');
+      }
+
+      if (seatNumbers.length !== booking.seatNumbers.length) {
+        throw new BadRequestError(`Choose ${booking.seatNumbers.length} seats; a change cannot add or drop seats`);
+      }
+
+      const tripId = data.tripId || booking.tripId;
+      const isTripChange = tripId !== booking.tripId;
+
+      if (!isTripChange && seatNumbers.every(seat => booking.seatNumbers.includes(seat))) {
+        throw new BadRequestError('Booking already has these seats');
+      }
+
+      // Passengers keep their order: whoever had the first seat gets the first new seat
+      const currentPassengers = booking.passengerDetails as unknown as PassengerDetails[];
+      const passengerDetails = data.passengerDetails || currentPassengers.map(passenger => ({
+        ...passenger,
+        seatNumber: seatNumbers[booking.seatNumbers.indexOf(passenger.seatNumber)],
+      }));
+
+      if (passengerDetails.length !== seatNumbers.length) {
+        throw new BadRequestError('Passenger details must match number of seats');
+      }
+
+      const mismatchedSeats = seatNumbers.filter(seat => !passengerDetails.some(p => p.seatNumber === seat));
+      if (mismatchedSeats.length > 0) {
+        throw new BadRequestError('Seat numbers in passenger details do not match requested seats');
+      }
+
+      const trip = await tx.trip.findUnique({
+        where: { id: tripId },
+        include: {
+          bookings: {
+            where: {
+              id: {
+                not: booking.id,
+              },
+              status: {
+                in: ['CONFIRMED', 'PENDING'],
+              },
+            },
+            select: {
+              seatNumbers: true,
+            },
+          },
+        },
+      });
+
+      if (!trip) {
+        throw new NotFoundError('Trip not found');
+      }
+
+      if (trip.routeId !== booking.trip.routeId || trip.operatorId !== booking.trip.operatorId) {
+        throw new BadRequestError('Bookings can only move to another departure of the same route and operator');
+      }
+
+      if (trip.status !== 'SCHEDULED') {
+        throw new BadRequestError('Trip is not available for booking');
+      }
+
+      if (trip.departureTime <= now) {
+        throw new BadRequestError('Cannot book past trips');
+      }
+
+      const bookedSeats = trip.bookings.flatMap(other => other.seatNumbers);
+      const unavailableSeats = seatNumbers.filter(seat => bookedSeats.includes(seat));
+      if (unavailableSeats.length > 0) {
+        throw new SeatConflictError(unavailableSeats, `Seats ${unavailableSeats.join(', ')} are already booked`);
+      }
+
+      const heldSeats = await seatHoldService.getHeldSeatNumbers(trip.id, booking.userId, tx);
+      const contestedSeats = seatNumbers.filter(seat => heldSeats.includes(seat));
+      if (contestedSeats.length > 0) {
+        throw new SeatConflictError(contestedSeats, `Seats ${contestedSeats.join(', ')} are currently held by another customer`);
+      }
+
+      // Seats the booking already has on this trip stay with it
+      const claimedSeats = isTripChange
+        ? seatNumbers
+        : seatNumbers.filter(seat => !booking.seatNumbers.includes(seat));
+
+      if (trip.availableSeats < claimedSeats.length) {
+        throw new ConflictError('Not enough seats available on this trip');
+      }
+
+      if (isTripChange) {
+        await promoCodeService.assertRedemptionAppliesToTrip(tx, booking.id, trip);
+      }
+
+      // Discounts already given carry over to the new fare
+      const fare = calculateFare(isTripChange ? trip.price : booking.baseFare, seatNumbers.length, booking.discountAmount);
+      const fareDifference = fare.totalAmount - booking.totalAmount;
+
+      await seatHoldService.claimSeatsForBooking(tx, trip.id, claimedSeats, booking.userId, booking.id);
+
+      const seatUpdate = await tx.trip.updateMany({
+        where: {
+          id: trip.id,
+          availableSeats: {
+            gte: claimedSeats.length,
+          },
+        },
+        data: {
+          availableSeats: {
+            decrement: claimedSeats.length,
+          },
+        },
+      });
+
+      if (seatUpdate.count === 0) {
+        throw new ConflictError('Not enough seats available on this trip');
+      }
+
+      const paymentDeadline = addMinutes(now, config.booking.paymentTimeoutMinutes);
+
+      const modification = await tx.bookingModification.create({
+        data: {
+          bookingId: booking.id,
+          type: isTripChange ? 'TRIP_CHANGE' : 'SEAT_CHANGE',
+          fromTripId: booking.tripId,
+          toTripId: trip.id,
+          fromSeats: booking.seatNumbers,
+          toSeats: seatNumbers,
+          previousTotal: booking.totalAmount,
+          newTotal: fare.totalAmount,
+          fareDifference,
+          passengerDetails: passengerDetails as unknown as Prisma.InputJsonArray,
+          fare: fare as unknown as Prisma.InputJsonObject,
+          requestedById: userId,
+          ...(fareDifference > 0 && {
+            status: 'AWAITING_PAYMENT',
+            expiresAt: paymentDeadline < trip.departureTime ? paymentDeadline : trip.departureTime,
+          }),
+        },
+      });
+
+      if (modification.status === 'APPLIED') {
+        await bookingBalanceService.applyChange(tx, modification);
+      }
+
+      const refunds = fareDifference < 0
+        ? await refundService.refundAcrossPayments(
+          tx,
+          booking.id,
+          -fareDifference,
+          fullRefund,
+          'Fare difference for booking change',
+          refundTo,
+          userId
+        )
+        : [];
+
+      return {
+        booking: await tx.booking.findUniqueOrThrow({
+          where: { id: booking.id },
+          include: {
+            trip: {
+              select: {
+                id: true,
+                departureTime: true,
+                arrivalTime: true,
+                price: true,
+                bus: {
+                  select: {
+                    id: true,
+                    busNumber: true,
+                    busType: true,
+                  },
+                },
+                route: {
+                  select: {
+                    id: true,
+                    origin: true,
+                    destination: true,
+                  },
+                },
+              },
+            },
+          },
+        }),
+        modification,
+        amountDue: Math.max(fareDifference, 0),
+        refunds,
+      };
+    });
+
+    if (result.modification.type === 'TRIP_CHANGE' && result.modification.status === 'APPLIED') {
+      await this.offerToWaitlist(result.modification.fromTripId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Cancel PENDING bookings whose payment deadline has passed, and drop booking
+   * changes whose fare difference was not paid in time
+   */
+  async expirePendingBookings() {
+    const expiredBookings = await prisma.booking.findMany({
+      where: {
+        status: 'PENDING',
+        expiresAt: {
+          lte: new Date(),
+        },
+      },
+      select: {
+        id: true,
+        userId: true,
+        tripId: true,
+        seatNumbers: true,
+        bookingReference: true,
+        pointsRedeemed: true,
+        trip: {
+          select: {
+            operatorId: true,
+            departureTime: true,
+          },
         },
       },
+      take: 100,
     });
 
-    // If there are completed payments, initiate refund process
-    if (booking.payments.length > 0) {
-      for (const payment of booking.payments) {
-        if (payment.status === 'COMPLETED') {
-          await prisma.payment.update({
-            where: { id: payment.id },
+    let expired = 0;
+
+    for (const booking of expiredBookings) {
+      try {
+        const wasExpired = await prisma.$transaction(async (tx) => {
+          // A payment may have confirmed the booking since it was read
+          const cancelled = await tx.booking.updateMany({
+            where: {
+              id: booking.id,
+              status: 'PENDING',
+            },
             data: {
-              status: 'REFUNDED',
+              status: 'CANCELLED',
             },
           });
+
+          if (cancelled.count === 0) {
+            return false;
+          }
+
+          await this.releaseBookingInventory(tx, booking);
+          await loyaltyService.restoreRedeemed(tx, booking);
+
+          // Gateway payments still PENDING are left for reconciliation to settle with
+          // the gateway; one that turns out to have gone through is refunded in full
+          const paid = await refundService.getRefundablePayments(tx, booking.id);
+
+          // Wallet part-payments made before the deadline go back to the wallet
+          await refundService.returnPaymentsToWallet(tx, booking.id, paid, 'Booking expired before it was paid in full');
+
+          return true;
+        });
+
+        if (wasExpired) {
+          expired++;
+          await this.offerToWaitlist(booking.tripId);
         }
+      } catch (error) {
+        console.error(`[Booking Service] Error expiring booking ${booking.id}:`, error);
       }
     }
 
-    return updatedBooking;
+    const expiredChanges = await prisma.bookingModification.findMany({
+      where: {
+        status: 'AWAITING_PAYMENT',
+        expiresAt: {
+          lte: new Date(),
+        },
+      },
+      take: 100,
+    });
+
+    let dropped = 0;
+
+    for (const change of expiredChanges) {
+      try {
+        // A payment may have applied the change since it was read
+        const wasDropped = await prisma.$transaction(async (tx) => {
+          return await this.dropPendingChange(tx, change, 'EXPIRED', 'Booking change expired before the fare difference was paid');
+        });
+
+        if (wasDropped) {
+          dropped++;
+          await this.offerToWaitlist(change.toTripId);
+        }
+      } catch (error) {
+        console.error(`[Booking Service] Error expiring change ${change.id} to booking ${change.bookingId}:`, error);
+      }
+    }
+
+    return {
+      totalBookingsProcessed: expiredBookings.length,
+      expiredBookings: expired,
+      expiredChanges: dropped,
+    };
+  }
+
+  /**
+   * Mark a finished trip's CONFIRMED bookings COMPLETED and award their loyalty points
+   */
+  async completeTripBookings(tripId: string) {
+    return await prisma.$transaction(async (tx) => {
+      const bookings = await tx.booking.findMany({
+        where: {
+          tripId,
+          status: 'CONFIRMED',
+        },
+        select: {
+          id: true,
+        },
+      });
+
+      await tx.booking.updateMany({
+        where: {
+          id: { in: bookings.map(booking => booking.id) },
+        },
+        data: {
+          status: 'COMPLETED',
+        },
+      });
+
+      for (const booking of bookings) {
+        await loyaltyService.earnForBooking(tx, booking.id);
+      }
+
+      return bookings.length;
+    });
+  }
+
+  /**
+   * Return a booking's seats to the trip
+   */
+  private async releaseBookingInventory(
+    tx: Prisma.TransactionClient,
+    booking: { id: string; tripId: string; seatNumbers: string[] }
+  ) {
+    await tx.trip.update({
+      where: { id: booking.tripId },
+      data: {
+        availableSeats: {
+          increment: booking.seatNumbers.length,
+        },
+      },
+    });
+
+    await seatHoldService.releaseBookingSeats(booking.id, tx);
+  }
+
+  /**
+   * Give up a change still awaiting its fare difference: the seats set aside
+   * for it go back to the trip and the booking stays as it was. Anything
+   * already paid towards the difference is returned as wallet credit. Returns
+   * false when the change was applied or dropped meanwhile.
+   */
+  private async dropPendingChange(
+    tx: Prisma.TransactionClient,
+    change: BookingModification,
+    status: 'EXPIRED' | 'CANCELLED',
+    reason: string
+  ) {
+    const dropped = await tx.bookingModification.updateMany({
+      where: {
+        id: change.id,
+        status: 'AWAITING_PAYMENT',
+      },
+      data: {
+        status,
+      },
+    });
+
+    if (dropped.count === 0) {
+      return false;
+    }
+
+    const heldSeats = change.toTripId === change.fromTripId
+      ? change.toSeats.filter(seat => !change.fromSeats.includes(seat))
+      : change.toSeats;
+
+    await seatHoldService.releaseBookingSeats(change.bookingId, tx, heldSeats, change.toTripId);
+
+    await tx.trip.update({
+      where: { id: change.toTripId },
+      data: {
+        availableSeats: {
+          increment: heldSeats.length,
+        },
+      },
+    });
+
+    const overpaid = -(await bookingBalanceService.getAmountDue(tx, change.bookingId));
+
+    if (overpaid > 0) {
+      await refundService.refundAcrossPayments(tx, change.bookingId, overpaid, fullRefund, reason, 'WALLET');
+    }
+
+    return true;
+  }
+
+  /**
+   * Offer seats a booking gave up to the trip's waitlist. A failure here is only
+   * logged; the waitlist sweep makes the offer later.
+   */
+  private async offerToWaitlist(tripId: string) {
+    try {
+      await waitlistService.offerFreedSeats(tripId);
+    } catch (error) {
+      console.error(`[Booking Service] Error offering seats on trip ${tripId} to the waitlist:`, error);
+    }
+  }
+
+  /**
+   * How much of each payment a cancellation at `now` returns: the operator's
+   * policy applies unless the customer's loyalty tier cancels for free
+   */
+  private async cancellationQuote(
+    client: Prisma.TransactionClient,
+    booking: { userId: string; trip: { operatorId: string; departureTime: Date } },
+    now: Date
+  ): Promise<(amount: number) => RefundQuote> {
+    const { tiers } = await refundService.getCancellationPolicy(booking.trip.operatorId, client);
+    const { freeCancellation } = await loyaltyService.getPerks(booking.userId, client);
+
+    return (amount) => freeCancellation
+      ? fullRefund(amount)
+      : refundService.quoteRefund(tiers, booking.trip.departureTime, amount, now);
   }
 
   async getUserBookings(userId: string, status?: string, page?: string, limit?: string) {
@@ -0,0 +1,217 @@
+import { BookingModification, Prisma } from '@prisma/client';
+import { FareBreakdown } from '@/utils/money';
+import { invoiceService } from '@/services/invoice.service';
+import { seatHoldService } from '@/services/seatHold.service';
+
+export class BookingBalanceService {
+  /**
+   * Confirm a PENDING booking, with the other legs of its journey, once its
+   * completed payments cover the total, and issue the tax invoices. A change
+   * awaiting its fare difference is applied the same way. Returns false when
+   * the booking is still short or has nothing left to settle (e.g. it expired
+   * meanwhile and stays cancelled, or the change expired).
+   */
+  async confirmIfPaid(tx: Prisma.TransactionClient, bookingId: string, paymentId: string) {
+    if ((await this.getAmountDue(tx, bookingId)) > 0) {
+      return false;
+    }
+
+    const { bookingIds } = await this.getPaymentGroup(tx, bookingId);
+    const settled: string[] = [];
+
+    for (const id of bookingIds) {
+      const confirmed = await tx.booking.updateMany({
+        where: {
+          id,
+          status: 'PENDING',
+        },
+        data: {
+          status: 'CONFIRMED',
+        },
+      });
+
+      if (confirmed.count > 0) {
+        settled.push(id);
+      }
+    }
+
+    const changes = await tx.bookingModification.findMany({
+      where: {
+        bookingId: { in: bookingIds },
+        status: 'AWAITING_PAYMENT',
+      },
+    });
+
+    for (const change of changes) {
+      // Guard against the expiry sweep giving the new seats back meanwhile
+      const applied = await tx.bookingModification.updateMany({
+        where: {
+          id: change.id,
+          status: 'AWAITING_PAYMENT',
+        },
+        data: {
+          status: 'APPLIED',
+        },
+      });
+
+      if (applied.count > 0) {
+        await this.applyChange(tx, change);
+        settled.push(change.bookingId);
+      }
+    }
+
+    if (!settled.includes(bookingId)) {
+      return false;
+    }
+
+    for (const id of settled) {
+      await invoiceService.issueTaxInvoice(tx, id, paymentId);
+    }
+
+    return true;
+  }
+
+  /**
+   * Move a booking onto the seats, passengers and fare of a change. The new
+   * seats must already be claimed for the booking; the old ones go back to
+   * their trip.
+   */
+  async applyChange(tx: Prisma.TransactionClient, change: BookingModification) {
+    const releasedSeats = change.toTripId === change.fromTripId
+      ? change.fromSeats.filter(seat => !change.toSeats.includes(seat))
+      : change.fromSeats;
+
+    await seatHoldService.releaseBookingSeats(change.bookingId, tx, releasedSeats, change.fromTripId);
+
+    await tx.trip.update({
+      where: { id: change.fromTripId },
+      data: {
+        availableSeats: {
+          increment: releasedSeats.length,
+        },
+      },
+    });
+
+    const fare = change.fare as unknown as FareBreakdown;
+
+    await tx.booking.update({
+      where: { id: change.bookingId },
+      data: {
+        tripId: change.toTripId,
+        seatNumbers: change.toSeats,
+        passengerDetails: change.passengerDetails as Prisma.InputJsonArray,
+        baseFare: fare.baseFare,
+        discountAmount: fare.discountAmount,
+        serviceFee: fare.serviceFee,
+        vatAmount: fare.vatAmount,
+        totalAmount: fare.totalAmount,
+      },
+    });
+  }
+
+  /**
+   * When what is due on a booking has to be paid by: the deadline of a PENDING
+   * booking, or of the change a confirmed booking is awaiting payment for
+   */
+  async getPaymentDeadline(client: Prisma.TransactionClient, bookingId: string) {
+    const booking = await client.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      select: {
+        status: true,
+        expiresAt: true,
+        modifications: {
+          where: {
+            status: 'AWAITING_PAYMENT',
+          },
+          select: {
+            expiresAt: true,
+          },
+        },
+      },
+    });
+
+    return booking.status === 'PENDING'
+      ? booking.expiresAt
+      : booking.modifications[0]?.expiresAt ?? null;
+  }
+
+  /**
+   * The bookings paid for together with `bookingId`: every leg of its journey,
+   * or just the booking itself. `totalAmount` leaves out cancelled legs and
+   * counts a change awaiting payment at its new total.
+   */
+  async getPaymentGroup(client: Prisma.TransactionClient, bookingId: string) {
+    const select = {
+      id: true,
+      journeyId: true,
+      status: true,
+      totalAmount: true,
+      modifications: {
+        where: {
+          status: 'AWAITING_PAYMENT' as const,
+        },
+        select: {
+          newTotal: true,
+        },
+      },
+    };
+
+    const booking = await client.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      select,
+    });
+
+    const bookings = booking.journeyId
+      ? await client.booking.findMany({
+        where: { journeyId: booking.journeyId },
+        select,
+      })
+      : [booking];
+
+    return {
+      bookingIds: bookings.map(b => b.id),
+      totalAmount: bookings
+        .filter(b => b.status !== 'CANCELLED')
+        .reduce((sum, b) => sum + (b.modifications[0]?.newTotal ?? b.totalAmount), 0),
+    };
+  }
+
+  /**
+   * What is left to pay on a booking, or on its whole journey. Payments count
+   * less anything refunded, including refunds still awaiting approval or payout
+   * and failed payouts still owed; fees withheld on seats cancelled from the
+   * booking do not pay for the rest.
+   */
+  async getAmountDue(client: Prisma.TransactionClient, bookingId: string) {
+    const { bookingIds, totalAmount } = await this.getPaymentGroup(client, bookingId);
+
+    const paid = await client.payment.aggregate({
+      where: {
+        bookingId: { in: bookingIds },
+        status: {
+          in: ['COMPLETED', 'PARTIALLY_REFUNDED', 'REFUNDED'],
+        },
+      },
+      _sum: {
+        amount: true,
+      },
+    });
+
+    const refunded = await client.refund.aggregate({
+      where: {
+        bookingId: { in: bookingIds },
+        status: {
+          in: ['REQUESTED', 'PROCESSING', 'FAILED', 'COMPLETED'],
+        },
+      },
+      _sum: {
+        amount: true,
+        cancellationFee: true,
+      },
+    });
+
+    return totalAmount - (paid._sum.amount || 0) + (refunded._sum.amount || 0) + (refunded._sum.cancellationFee || 0);
+  }
+}
+
+export const bookingBalanceService = new BookingBalanceService();
@@ -0,0 +1,55 @@
+import config from '@/config';
+import { BookingService } from '@/services/booking.service';
+
+const bookingService = new BookingService();
+
+class BookingExpiryScheduler {
+    private isRunning: boolean = false;
+    private intervalId: NodeJS.Timeout | null = null;
+
+    /**
+     * Start cancelling PENDING bookings past their payment deadline
+     */
+    public start(): void {
+        const intervalMs = config.booking.expirySweepIntervalMs;
+
+        this.intervalId = setInterval(async () => {
+            if (this.isRunning) {
+                return;
+            }
+
+            this.isRunning = true;
+
+            try {
+                const result = await bookingService.expirePendingBookings();
+
+                if (result.expiredBookings > 0) {
+                    console.log(`[Booking Expiry Scheduler] Expired ${result.expiredBookings}/${result.totalBookingsProcessed} unpaid bookings`);
+                }
+
+                if (result.expiredChanges > 0) {
+                    console.log(`[Booking Expiry Scheduler] Dropped ${result.expiredChanges} booking changes left unpaid`);
+                }
+            } catch (error) {
+                console.error('[Booking Expiry Scheduler] Error expiring unpaid bookings:', error);
+            } finally {
+                this.isRunning = false;
+            }
+        }, intervalMs);
+
+        console.log(`[Booking Expiry Scheduler] Scheduler started - will run every ${intervalMs / 1000} seconds`);
+    }
+
+    /**
+     * Stop the booking expiry scheduler
+     */
+    public stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        console.log('[Booking Expiry Scheduler] Scheduler stopped');
+    }
+}
+
+export const bookingExpiryScheduler = new BookingExpiryScheduler();
@@ -0,0 +1,321 @@
+import prisma from '@/config/database';
+import { NotFoundError, BadRequestError, ForbiddenError, ConflictError } from '@/utils/errors';
+import { CashPaymentRequest, CashDrawerQuery, WalkInBookingRequest } from '@/types';
+import { generatePaymentReference, generateReceiptNumber } from '@/utils/auth';
+import { runSerializable } from '@/utils/transaction';
+import { getNepalDay } from '@/utils/nepalTime';
+import { BookingService } from '@/services/booking.service';
+import { ledgerService } from '@/services/ledger.service';
+import { bookingBalanceService } from '@/services/bookingBalance.service';
+import { Prisma, UserRole } from '@prisma/client';
+
+const bookingService = new BookingService();
+
+export class CashService {
+  /**
+   * Record cash collected at the counter against a customer's PENDING booking,
+   * or the fare difference of a change to their booking
+   */
+  async recordCashPayment(data: CashPaymentRequest, operatorId: string) {
+    const { bookingId, amount } = data;
+
+    return await runSerializable(async (tx) => {
+      const booking = await tx.booking.findUnique({
+        where: { id: bookingId },
+        include: {
+          trip: {
+            select: {
+              id: true,
+              departureTime: true,
+              status: true,
+              operator: {
+                select: {
+                  userId: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!booking) {
+        throw new NotFoundError('Booking not found');
+      }
+
+      if (booking.trip.operator.userId !== operatorId) {
+        throw new ForbiddenError('You can only collect payments for your own trips');
+      }
+
+      if (booking.status === 'CANCELLED') {
+        throw new BadRequestError('Cannot pay for cancelled booking');
+      }
+
+      // Wallet payments may already cover part of the booking
+      const amountDue = await bookingBalanceService.getAmountDue(tx, booking.id);
+
+      if (amountDue <= 0) {
+        throw new BadRequestError('Booking is already paid');
+      }
+
+      const deadline = await bookingBalanceService.getPaymentDeadline(tx, booking.id);
+
+      if (deadline && deadline <= new Date()) {
+        throw new BadRequestError('Payment deadline for this booking has passed');
+      }
+
+      if (booking.trip.status !== 'SCHEDULED') {
+        throw new BadRequestError('Trip is no longer available');
+      }
+
+      if (amount !== amountDue) {
+        throw new BadRequestError('Payment amount does not match the amount due');
+      }
+
+      const payment = await this.collectCash(tx, booking.id, booking.userId, amount, operatorId);
+
+      return {
+        payment,
+        receiptNumber: payment.receiptNumber,
+      };
+    });
+  }
+
+  /**
+   * Sell seats to a walk-in passenger: the booking is made under the operator's
+   * account and confirmed by the cash payment in the same transaction
+   */
+  async createWalkInBooking(data: WalkInBookingRequest, operatorId: string) {
+    const { amount, ...bookingData } = data;
+
+    return await runSerializable(async (tx) => {
+      const trip = await tx.trip.findUnique({
+        where: { id: bookingData.tripId },
+        select: {
+          operator: {
+            select: {
+              userId: true,
+            },
+          },
+        },
+      });
+
+      if (!trip) {
+        throw new NotFoundError('Trip not found');
+      }
+
+      if (trip.operator.userId !== operatorId) {
+        throw new ForbiddenError('You can only sell tickets for your own trips');
+      }
+
+      const booking = await bookingService.createBookingInTransaction(tx, bookingData, operatorId);
+
+      if (amount !== booking.totalAmount) {
+        throw new BadRequestError('Payment amount does not match booking amount');
+      }
+
+      const payment = await this.collectCash(tx, booking.id, operatorId, amount, operatorId);
+
+      return {
+        booking: {
+          ...booking,
+          status: 'CONFIRMED' as const,
+        },
+        payment,
+        receiptNumber: payment.receiptNumber,
+      };
+    });
+  }
+
+  /**
+   * Cash collected and handed back per operator on one calendar day in Nepal,
+   * for reconciling the cash drawer
+   */
+  async getCashDrawerReport(query: CashDrawerQuery, userRole: UserRole, userId: string) {
+    let collectorId = query.collectorId;
+
+    if (userRole === 'OPERATOR') {
+      if (collectorId && collectorId !== userId) {
+        throw new ForbiddenError('Access denied');
+      }
+      collectorId = userId;
+    } else if (userRole !== 'ADMIN') {
+      throw new ForbiddenError('Access denied');
+    }
+
+    // Drawers are counted over the Nepal calendar day, not the server's
+    const { start, end } = getNepalDay(query.date ? new Date(query.date) : new Date());
+    const collectedBy = collectorId ? collectorId : { not: null };
+
+    const payments = await prisma.payment.findMany({
+      where: {
+        method: 'CASH',
+        collectedById: collectedBy,
+        status: {
+          in: ['COMPLETED', 'REFUNDED', 'PARTIALLY_REFUNDED'],
+        },
+        createdAt: {
+          gte: start,
+          lt: end,
+        },
+      },
+      include: {
+        booking: {
+          select: {
+            id: true,
+            bookingReference: true,
+            seatNumbers: true,
+            status: true,
+            tripId: true,
+          },
+        },
+        collectedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    // Cash handed back to passengers that day leaves the drawer that took it;
+    // store credit does not
+    const refunds = await prisma.refund.findMany({
+      where: {
+        status: 'COMPLETED',
+        destination: 'ORIGINAL_METHOD',
+        processedAt: {
+          gte: start,
+          lt: end,
+        },
+        payment: {
+          method: 'CASH',
+          collectedById: collectedBy,
+        },
+      },
+      select: {
+        id: true,
+        amount: true,
+        processedAt: true,
+        payment: {
+          select: {
+            id: true,
+            receiptNumber: true,
+            collectedById: true,
+            collectedBy: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: {
+        processedAt: 'asc',
+      },
+    });
+
+    const drawers = new Map<string, {
+      collector: { id: string; name: string; email: string } | null;
+      collectedCount: number;
+      collectedAmount: number;
+      refundedCount: number;
+      refundedAmount: number;
+      payments: typeof payments;
+      refunds: typeof refunds;
+    }>();
+
+    const drawerFor = (collector: { id: string; name: string; email: string } | null, key: string) => {
+      let drawer = drawers.get(key);
+
+      if (!drawer) {
+        drawer = {
+          collector,
+          collectedCount: 0,
+          collectedAmount: 0,
+          refundedCount: 0,
+          refundedAmount: 0,
+          payments: [],
+          refunds: [],
+        };
+        drawers.set(key, drawer);
+      }
+
+      return drawer;
+    };
+
+    for (const payment of payments) {
+      const drawer = drawerFor(payment.collectedBy, payment.collectedById as string);
+
+      drawer.collectedCount += 1;
+      drawer.collectedAmount += payment.amount;
+      drawer.payments.push(payment);
+    }
+
+    for (const refund of refunds) {
+      const drawer = drawerFor(refund.payment.collectedBy, refund.payment.collectedById as string);
+
+      drawer.refundedCount += 1;
+      drawer.refundedAmount += refund.amount;
+      drawer.refunds.push(refund);
+    }
+
+    const operators = Array.from(drawers.values()).map(drawer => ({
+      ...drawer,
+      netAmount: drawer.collectedAmount - drawer.refundedAmount,
+    }));
+
+    return {
+      from: start,
+      to: end,
+      operators,
+      totals: {
+        collectedCount: operators.reduce((sum, drawer) => sum + drawer.collectedCount, 0),
+        collectedAmount: operators.reduce((sum, drawer) => sum + drawer.collectedAmount, 0),
+        refundedCount: operators.reduce((sum, drawer) => sum + drawer.refundedCount, 0),
+        refundedAmount: operators.reduce((sum, drawer) => sum + drawer.refundedAmount, 0),
+        netAmount: operators.reduce((sum, drawer) => sum + drawer.netAmount, 0),
+      },
+    };
+  }
+
+  private async collectCash(
+    tx: Prisma.TransactionClient,
+    bookingId: string,
+    payerId: string,
+    amount: number,
+    collectorId: string
+  ) {
+    const payment = await tx.payment.create({
+      data: {
+        bookingId,
+        userId: payerId,
+        amount,
+        method: 'CASH',
+        status: 'COMPLETED',
+        paymentReference: generatePaymentReference(),
+        receiptNumber: generateReceiptNumber(),
+        collectedById: collectorId,
+        completedAt: new Date(),
+      },
+    });
+
+    await ledgerService.postPaymentCompleted(tx, payment.id);
+
+    // Cash settles the amount due; confirm unless the booking expired meanwhile
+    const confirmed = await bookingBalanceService.confirmIfPaid(tx, bookingId, payment.id);
+
+    if (!confirmed) {
+      throw new ConflictError('Booking is no longer awaiting payment');
+    }
+
+    return payment;
+  }
+}
+
+export const cashService = new CashService();
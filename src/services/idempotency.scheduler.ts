@@ -0,0 +1,49 @@
+import config from '@/config';
+import { idempotencyService } from '@/services/idempotency.service';
+
+class IdempotencyScheduler {
+    private isRunning: boolean = false;
+    private intervalId: NodeJS.Timeout | null = null;
+
+    /**
+     * Start purging expired idempotency keys
+     */
+    public start(): void {
+        const intervalMs = config.idempotency.sweepIntervalMs;
+
+        this.intervalId = setInterval(async () => {
+            if (this.isRunning) {
+                return;
+            }
+
+            this.isRunning = true;
+
+            try {
+                const result = await idempotencyService.purgeExpiredKeys();
+
+                if (result.purgedKeys > 0) {
+                    console.log(`[Idempotency Scheduler] Purged ${result.purgedKeys} expired idempotency keys`);
+                }
+            } catch (error) {
+                console.error('[Idempotency Scheduler] Error purging idempotency keys:', error);
+            } finally {
+                this.isRunning = false;
+            }
+        }, intervalMs);
+
+        console.log(`[Idempotency Scheduler] Scheduler started - will run every ${intervalMs / 1000} seconds`);
+    }
+
+    /**
+     * Stop the idempotency scheduler
+     */
+    public stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        console.log('[Idempotency Scheduler] Scheduler stopped');
+    }
+}
+
+export const idempotencyScheduler = new IdempotencyScheduler();
@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import prisma from '@/config/database';
+import config from '@/config';
+import { ConflictError } from '@/utils/errors';
+import { isUniqueViolation } from '@/utils/transaction';
+import { Prisma } from '@prisma/client';
+
+export interface IdempotentRequest {
+  key: string;
+  userId: string;
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export type IdempotencyClaim =
+  | { replay: false; id: string }
+  | { replay: true; status: number; body: unknown };
+
+export class IdempotencyService {
+  /**
+   * Claim a key for a request, or return the stored response when the same
+   * request was already completed under this key. A key whose request has
+   * been in flight longer than the lock timeout, e.g. because the process
+   * handling it died, is taken over.
+   */
+  async claim(request: IdempotentRequest): Promise<IdempotencyClaim> {
+    const requestHash = this.hashRequest(request);
+
+    try {
+      const record = await prisma.idempotencyKey.create({
+        data: {
+          key: request.key,
+          userId: request.userId,
+          method: request.method,
+          path: request.path,
+          requestHash,
+          expiresAt: new Date(Date.now() + config.idempotency.ttlHours * 60 * 60 * 1000),
+        },
+      });
+
+      return { replay: false, id: record.id };
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: {
+        userId_key: {
+          userId: request.userId,
+          key: request.key,
+        },
+      },
+    });
+
+    // Released or purged between the insert and the lookup, or expired: claim it afresh
+    if (!existing) {
+      return this.claim(request);
+    }
+
+    if (existing.expiresAt <= new Date()) {
+      await prisma.idempotencyKey.deleteMany({
+        where: {
+          id: existing.id,
+          expiresAt: existing.expiresAt,
+        },
+      });
+      return this.claim(request);
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new ConflictError('Idempotency key was already used with a different request');
+    }
+
+    if (existing.responseStatus === null) {
+      const staleBefore = new Date(Date.now() - config.idempotency.lockTimeoutSeconds * 1000);
+
+      if (existing.lockedAt > staleBefore) {
+        throw new ConflictError('A request with this idempotency key is still being processed');
+      }
+
+      // Only one retry wins the takeover; the others see the fresh lock
+      const taken = await prisma.idempotencyKey.updateMany({
+        where: {
+          id: existing.id,
+          responseStatus: null,
+          lockedAt: existing.lockedAt,
+        },
+        data: {
+          lockedAt: new Date(),
+        },
+      });
+
+      if (taken.count === 0) {
+        return this.claim(request);
+      }
+
+      return { replay: false, id: existing.id };
+    }
+
+    return {
+      replay: true,
+      status: existing.responseStatus,
+      body: existing.responseBody,
+    };
+  }
+
+  async complete(id: string, status: number, body: unknown) {
+    await prisma.idempotencyKey.update({
+      where: { id },
+      data: {
+        responseStatus: status,
+        responseBody: body as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Forget a key whose request failed so the client can retry with it
+   */
+  async release(id: string) {
+    await prisma.idempotencyKey.deleteMany({
+      where: { id },
+    });
+  }
+
+  async purgeExpiredKeys() {
+    const result = await prisma.idempotencyKey.deleteMany({
+      where: {
+        expiresAt: {
+          lte: new Date(),
+        },
+      },
+    });
+
+    return {
+      purgedKeys: result.count,
+    };
+  }
+
+  private hashRequest(request: IdempotentRequest): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${request.method} ${request.path}\n${JSON.stringify(request.body ?? {})}`)
+      .digest('hex');
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
@@ -0,0 +1,425 @@
+import prisma from '@/config/database';
+import config from '@/config';
+import { NotFoundError, ForbiddenError } from '@/utils/errors';
+import { validatePagination, paginationHelper } from '@/utils/response';
+import { getFiscalYear } from '@/utils/fiscalYear';
+import { renderInvoicePdf } from '@/utils/invoicePdf';
+import { Invoice, InvoiceType, Prisma, UserRole } from '@prisma/client';
+
+const NUMBER_PREFIX: Record<InvoiceType, string> = {
+  TAX_INVOICE: 'INV',
+  CREDIT_NOTE: 'CN',
+};
+
+export class InvoiceService {
+  /**
+   * Issue the tax invoice for a booking once it is paid in full. Runs inside the
+   * transaction that confirms the booking so a number is only consumed when
+   * the payment commits. `paymentId` is the payment that settled the booking.
+   * A booking already invoiced gets a supplementary invoice for whatever a
+   * change of booking added to the fare, if anything.
+   */
+  async issueTaxInvoice(tx: Prisma.TransactionClient, bookingId: string, paymentId: string) {
+    const existing = await tx.invoice.findFirst({
+      where: {
+        bookingId,
+        type: 'TAX_INVOICE',
+      },
+      orderBy: { issuedAt: 'asc' },
+    });
+
+    const booking = await tx.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        trip: {
+          select: {
+            departureTime: true,
+            route: {
+              select: {
+                origin: true,
+                destination: true,
+              },
+            },
+            operator: true,
+          },
+        },
+      },
+    });
+
+    const { operator, route } = booking.trip;
+
+    if (existing) {
+      return await this.issueSupplementaryInvoice(tx, booking, existing, paymentId);
+    }
+
+    const taxableAmount = booking.baseFare * booking.seatNumbers.length - booking.discountAmount + booking.serviceFee;
+
+    return await tx.invoice.create({
+      data: {
+        ...(await this.nextNumber(tx, 'TAX_INVOICE')),
+        type: 'TAX_INVOICE',
+        bookingId: booking.id,
+        bookingReference: booking.bookingReference,
+        paymentId,
+        ...this.platformDetails(),
+        operatorId: operator.id,
+        operatorName: operator.companyName,
+        operatorPan: operator.panNumber,
+        operatorAddress: operator.address,
+        customerId: booking.user.id,
+        customerName: booking.user.name,
+        description: `Bus fare ${route.origin} - ${route.destination}, departing ${booking.trip.departureTime.toISOString()}, seats ${booking.seatNumbers.join(', ')}`,
+        seatCount: booking.seatNumbers.length,
+        baseFare: booking.baseFare,
+        discountAmount: booking.discountAmount,
+        serviceFee: booking.serviceFee,
+        taxableAmount,
+        vatRate: config.fare.vatRate,
+        vatAmount: booking.vatAmount,
+        totalAmount: booking.totalAmount,
+      },
+    });
+  }
+
+  /**
+   * Issue a credit note against the original tax invoice for a completed refund.
+   * The VAT reversed is the refund's share of the VAT originally charged.
+   */
+  async issueCreditNote(tx: Prisma.TransactionClient, refundId: string) {
+    const existing = await tx.invoice.findUnique({
+      where: { refundId },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const refund = await tx.refund.findUniqueOrThrow({
+      where: { id: refundId },
+    });
+
+    const original = await tx.invoice.findFirst({
+      where: {
+        bookingId: refund.bookingId,
+        type: 'TAX_INVOICE',
+      },
+      orderBy: { issuedAt: 'asc' },
+    });
+
+    // Bookings never paid in full, or paid before invoicing began, have nothing to credit
+    if (!original) {
+      return null;
+    }
+
+    const vatAmount = Math.round((refund.amount * original.vatAmount) / original.totalAmount);
+
+    return await tx.invoice.create({
+      data: {
+        ...(await this.nextNumber(tx, 'CREDIT_NOTE')),
+        type: 'CREDIT_NOTE',
+        bookingId: original.bookingId,
+        bookingReference: original.bookingReference,
+        paymentId: refund.paymentId,
+        refundId: refund.id,
+        originalInvoiceId: original.id,
+        ...this.platformDetails(),
+        operatorId: original.operatorId,
+        operatorName: original.operatorName,
+        operatorPan: original.operatorPan,
+        operatorAddress: original.operatorAddress,
+        customerId: original.customerId,
+        customerName: original.customerName,
+        description: `Refund against ${original.invoiceNumber}: ${refund.reason}`,
+        taxableAmount: refund.amount - vatAmount,
+        vatRate: original.vatRate,
+        vatAmount,
+        totalAmount: refund.amount,
+      },
+    });
+  }
+
+  async getInvoices(
+    userRole: UserRole,
+    userId: string,
+    page?: string,
+    limit?: string,
+    type?: string,
+    fiscalYear?: string,
+    bookingId?: string
+  ) {
+    const { page: pageNum, limit: limitNum } = validatePagination(page, limit);
+
+    const where: Prisma.InvoiceWhereInput = {};
+
+    if (type) {
+      where.type = type as InvoiceType;
+    }
+
+    if (fiscalYear) {
+      where.fiscalYear = fiscalYear;
+    }
+
+    if (bookingId) {
+      where.bookingId = bookingId;
+    }
+
+    if (userRole === 'OPERATOR') {
+      const operator = await this.getOperatorProfile(userId);
+      where.operatorId = operator.id;
+    } else if (userRole === 'CUSTOMER') {
+      where.customerId = userId;
+    }
+
+    const total = await prisma.invoice.count({ where });
+    const { skip, take, pagination } = paginationHelper(pageNum, limitNum, total);
+
+    const invoices = await prisma.invoice.findMany({
+      where,
+      skip,
+      take,
+      orderBy: {
+        issuedAt: 'desc',
+      },
+    });
+
+    return {
+      invoices,
+      pagination,
+    };
+  }
+
+  async getInvoiceById(invoiceId: string, userRole: UserRole, userId: string) {
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: invoiceId },
+      include: {
+        originalInvoice: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+            issuedAt: true,
+          },
+        },
+        creditNotes: {
+          select: {
+            id: true,
+            invoiceNumber: true,
+            totalAmount: true,
+            issuedAt: true,
+          },
+          orderBy: { issuedAt: 'asc' },
+        },
+      },
+    });
+
+    if (!invoice) {
+      throw new NotFoundError('Invoice not found');
+    }
+
+    if (userRole === 'CUSTOMER' && invoice.customerId !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    if (userRole === 'OPERATOR') {
+      const operator = await this.getOperatorProfile(userId);
+
+      if (invoice.operatorId !== operator.id) {
+        throw new ForbiddenError('Access denied');
+      }
+    }
+
+    return invoice;
+  }
+
+  async getInvoicePdf(invoiceId: string, userRole: UserRole, userId: string) {
+    const invoice = await this.getInvoiceById(invoiceId, userRole, userId);
+
+    return {
+      invoice,
+      pdf: await renderInvoicePdf(invoice),
+    };
+  }
+
+  async getTaxDetails(userId: string) {
+    const operator = await this.getOperatorProfile(userId);
+
+    return {
+      operatorId: operator.id,
+      companyName: operator.companyName,
+      address: operator.address,
+      panNumber: operator.panNumber,
+    };
+  }
+
+  async updateTaxDetails(userId: string, panNumber: string) {
+    const operator = await this.getOperatorProfile(userId);
+
+    const updated = await prisma.operatorProfile.update({
+      where: { id: operator.id },
+      data: { panNumber },
+    });
+
+    return {
+      operatorId: updated.id,
+      companyName: updated.companyName,
+      address: updated.address,
+      panNumber: updated.panNumber,
+    };
+  }
+
+  /**
+   * Invoice the part of a changed booking's total not yet invoiced. Credit notes
+   * already issued, and those still to come for refunds in progress, are netted
+   * off; fees withheld on seats cancelled earlier stay invoiced.
+   */
+  private async issueSupplementaryInvoice(
+    tx: Prisma.TransactionClient,
+    booking: {
+      id: string;
+      bookingReference: string;
+      seatNumbers: string[];
+      vatAmount: number;
+      totalAmount: number;
+      trip: { departureTime: Date; route: { origin: string; destination: string } };
+    },
+    original: Invoice,
+    paymentId: string
+  ) {
+    const invoiced = await tx.invoice.aggregate({
+      where: {
+        bookingId: booking.id,
+        type: 'TAX_INVOICE',
+      },
+      _sum: {
+        totalAmount: true,
+      },
+    });
+
+    const credited = await tx.invoice.aggregate({
+      where: {
+        bookingId: booking.id,
+        type: 'CREDIT_NOTE',
+      },
+      _sum: {
+        totalAmount: true,
+      },
+    });
+
+    const refundsInProgress = await tx.refund.aggregate({
+      where: {
+        bookingId: booking.id,
+        status: {
+          in: ['REQUESTED', 'PROCESSING', 'FAILED'],
+        },
+      },
+      _sum: {
+        amount: true,
+      },
+    });
+
+    const feesWithheld = await tx.refund.aggregate({
+      where: {
+        bookingId: booking.id,
+        status: {
+          in: ['REQUESTED', 'PROCESSING', 'FAILED', 'COMPLETED'],
+        },
+      },
+      _sum: {
+        cancellationFee: true,
+      },
+    });
+
+    const uninvoiced = booking.totalAmount +
+      (feesWithheld._sum.cancellationFee || 0) -
+      (invoiced._sum.totalAmount || 0) +
+      (credited._sum.totalAmount || 0) +
+      (refundsInProgress._sum.amount || 0);
+
+    if (uninvoiced <= 0) {
+      return original;
+    }
+
+    const { route } = booking.trip;
+    const vatAmount = Math.round((uninvoiced * booking.vatAmount) / booking.totalAmount);
+
+    return await tx.invoice.create({
+      data: {
+        ...(await this.nextNumber(tx, 'TAX_INVOICE')),
+        type: 'TAX_INVOICE',
+        bookingId: booking.id,
+        bookingReference: booking.bookingReference,
+        paymentId,
+        ...this.platformDetails(),
+        operatorId: original.operatorId,
+        operatorName: original.operatorName,
+        operatorPan: original.operatorPan,
+        operatorAddress: original.operatorAddress,
+        customerId: original.customerId,
+        customerName: original.customerName,
+        description: `Fare difference for booking change to ${route.origin} - ${route.destination}, departing ${booking.trip.departureTime.toISOString()}, seats ${booking.seatNumbers.join(', ')} (supplements ${original.invoiceNumber})`,
+        taxableAmount: uninvoiced - vatAmount,
+        vatRate: original.vatRate,
+        vatAmount,
+        totalAmount: uninvoiced,
+      },
+    });
+  }
+
+  /**
+   * Take the next number in the type's sequence for the current fiscal year.
+   * The increment locks the sequence row until the caller's transaction ends,
+   * so numbers are handed out in order and without gaps.
+   */
+  private async nextNumber(tx: Prisma.TransactionClient, type: InvoiceType) {
+    const { label: fiscalYear } = getFiscalYear();
+
+    const { lastNumber } = await tx.invoiceSequence.upsert({
+      where: {
+        type_fiscalYear: { type, fiscalYear },
+      },
+      create: {
+        type,
+        fiscalYear,
+        lastNumber: 1,
+      },
+      update: {
+        lastNumber: {
+          increment: 1,
+        },
+      },
+    });
+
+    return {
+      fiscalYear,
+      sequence: lastNumber,
+      invoiceNumber: `${NUMBER_PREFIX[type]}-${fiscalYear}-${String(lastNumber).padStart(6, '0')}`,
+    };
+  }
+
+  private platformDetails() {
+    return {
+      platformName: config.invoice.platformName,
+      platformPan: config.invoice.platformPan,
+      platformAddress: config.invoice.platformAddress,
+    };
+  }
+
+  private async getOperatorProfile(userId: string) {
+    const operator = await prisma.operatorProfile.findUnique({
+      where: { userId },
+    });
+
+    if (!operator) {
+      throw new NotFoundError('Operator profile not found');
+    }
+
+    return operator;
+  }
+}
+
+export const invoiceService = new InvoiceService();
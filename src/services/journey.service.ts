@@ -0,0 +1,226 @@
+import prisma from '@/config/database';
+import config from '@/config';
+import { NotFoundError, BadRequestError, ForbiddenError } from '@/utils/errors';
+import { CancelJourneyRequest, CreateJourneyRequest } from '@/types';
+import { generateJourneyReference } from '@/utils/auth';
+import { validatePagination, paginationHelper } from '@/utils/response';
+import { runSerializable } from '@/utils/transaction';
+import { BookingService } from '@/services/booking.service';
+import { bookingBalanceService } from '@/services/bookingBalance.service';
+import { UserRole } from '@prisma/client';
+
+const bookingService = new BookingService();
+
+const journeyInclude = {
+  bookings: {
+    include: {
+      trip: {
+        select: {
+          id: true,
+          departureTime: true,
+          arrivalTime: true,
+          status: true,
+          route: {
+            select: {
+              id: true,
+              origin: true,
+              destination: true,
+            },
+          },
+          operator: {
+            select: {
+              id: true,
+              companyName: true,
+              userId: true,
+            },
+          },
+        },
+      },
+    },
+    orderBy: {
+      trip: {
+        departureTime: 'asc' as const,
+      },
+    },
+  },
+};
+
+export class JourneyService {
+  /**
+   * Book a round trip or connecting trips as one journey: a PENDING booking per
+   * leg, all paid for in one go. Every leg is with the same operator, books the
+   * same number of seats and departs after the previous leg arrives. Each leg
+   * of a round trip gets the round-trip discount.
+   */
+  async createJourney(data: CreateJourneyRequest, userId: string) {
+    const { type, legs } = data;
+
+    if (legs.length > config.journey.maxLegs) {
+      throw new BadRequestError(`A journey can have at most ${config.journey.maxLegs} legs`);
+    }
+
+    if (type === 'ROUND_TRIP' && legs.length !== 2) {
+      throw new BadRequestError('A round trip has exactly two legs');
+    }
+
+    if (legs.some(leg => leg.seatNumbers.length !== legs[0].seatNumbers.length)) {
+      throw new BadRequestError('Every leg must book the same number of seats');
+    }
+
+    return await runSerializable(async (tx) => {
+      const trips = await tx.trip.findMany({
+        where: {
+          id: {
+            in: legs.map(leg => leg.tripId),
+          },
+        },
+        include: {
+          route: {
+            select: {
+              origin: true,
+              destination: true,
+            },
+          },
+        },
+      });
+
+      const legTrips = legs.map(leg => {
+        const trip = trips.find(t => t.id === leg.tripId);
+
+        if (!trip) {
+          throw new NotFoundError('Trip not found');
+        }
+
+        return trip;
+      });
+
+      legTrips.forEach((trip, i) => {
+        if (i === 0) {
+          return;
+        }
+
+        const previous = legTrips[i - 1];
+
+        // The journey's single payment is booked to one operator in the ledger and
+        // settlements, so legs with different operators cannot share it yet
+        if (trip.operatorId !== previous.operatorId) {
+          throw new BadRequestError('Every leg of a journey must be with the same operator');
+        }
+
+        if (trip.departureTime < previous.arrivalTime) {
+          throw new BadRequestError(`Leg ${i + 1} departs before leg ${i} arrives`);
+        }
+
+        if (type === 'MULTI_LEG' && trip.route.origin !== previous.route.destination) {
+          throw new BadRequestError(`Leg ${i + 1} must depart from ${previous.route.destination}`);
+        }
+      });
+
+      if (type === 'ROUND_TRIP') {
+        const [outbound, inbound] = legTrips;
+
+        if (inbound.route.origin !== outbound.route.destination || inbound.route.destination !== outbound.route.origin) {
+          throw new BadRequestError('The return leg must travel the outbound route in reverse');
+        }
+      }
+
+      const journey = await tx.journey.create({
+        data: {
+          userId,
+          type,
+          journeyReference: generateJourneyReference(),
+          discountPercent: type === 'ROUND_TRIP' ? config.journey.roundTripDiscountPercent : 0,
+        },
+      });
+
+      const bookings = [];
+      for (const leg of legs) {
+        bookings.push(await bookingService.createBookingInTransaction(tx, leg, userId, journey));
+      }
+
+      // One payment covers every leg, so they all fall due with the earliest
+      const expiresAt = new Date(Math.min(...bookings.map(booking => (booking.expiresAt as Date).getTime())));
+
+      await tx.booking.updateMany({
+        where: { journeyId: journey.id },
+        data: { expiresAt },
+      });
+
+      const totalAmount = bookings.reduce((sum, booking) => sum + booking.totalAmount, 0);
+
+      return {
+        ...journey,
+        bookings: bookings.map(booking => ({ ...booking, expiresAt })),
+        totalAmount,
+        amountDue: totalAmount,
+      };
+    });
+  }
+
+  /**
+   * A journey with its legs in travel order and what is left to pay on it
+   */
+  async getJourney(journeyId: string, userId: string, userRole: UserRole) {
+    const journey = await prisma.journey.findUnique({
+      where: { id: journeyId },
+      include: journeyInclude,
+    });
+
+    if (!journey) {
+      throw new NotFoundError('Journey not found');
+    }
+
+    const canView =
+      userRole === 'ADMIN' ||
+      journey.userId === userId ||
+      (userRole === 'OPERATOR' && journey.bookings.every(leg => leg.trip.operator.userId === userId));
+
+    if (!canView) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    return await this.withAmounts(journey);
+  }
+
+  async getUserJourneys(userId: string, page?: string, limit?: string) {
+    const { page: pageNum, limit: limitNum } = validatePagination(page, limit);
+
+    const where = { userId };
+
+    const total = await prisma.journey.count({ where });
+    const { skip, take, pagination } = paginationHelper(pageNum, limitNum, total);
+
+    const journeys = await prisma.journey.findMany({
+      where,
+      skip,
+      take,
+      include: journeyInclude,
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return {
+      journeys: await Promise.all(journeys.map(journey => this.withAmounts(journey))),
+      pagination,
+    };
+  }
+
+  async cancelJourney(journeyId: string, data: CancelJourneyRequest, userId: string, userRole: UserRole) {
+    await bookingService.cancelJourneyLegs(journeyId, data, userId, userRole);
+    return await this.getJourney(journeyId, userId, userRole);
+  }
+
+  private async withAmounts<T extends { bookings: Array<{ id: string; status: string }> }>(journey: T) {
+    const { totalAmount } = await bookingBalanceService.getPaymentGroup(prisma, journey.bookings[0].id);
+    const isUnpaid = journey.bookings.some(leg => leg.status === 'PENDING');
+
+    return {
+      ...journey,
+      totalAmount,
+      amountDue: isUnpaid ? await bookingBalanceService.getAmountDue(prisma, journey.bookings[0].id) : 0,
+    };
+  }
+}
+
+export const journeyService = new JourneyService();
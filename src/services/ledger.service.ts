@@ -0,0 +1,418 @@
+import prisma from '@/config/database';
+import { InternalServerError, NotFoundError } from '@/utils/errors';
+import { validatePagination, paginationHelper } from '@/utils/response';
+import { splitAmount } from '@/utils/money';
+import { LedgerAccountType, PaymentMethod, Prisma } from '@prisma/client';
+
+interface LedgerAccountRef {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  operatorId?: string;
+}
+
+interface LedgerLine {
+  account: LedgerAccountRef;
+  debit?: number;
+  credit?: number;
+}
+
+interface LedgerPosting {
+  reference: string;
+  description: string;
+  paymentId?: string;
+  refundId?: string;
+  settlementId?: string;
+  lines: LedgerLine[];
+}
+
+export const ledgerAccounts = {
+  customerReceivable: (): LedgerAccountRef => ({
+    code: 'CUSTOMER_RECEIVABLE',
+    name: 'Customer receivables',
+    type: 'ASSET',
+  }),
+  // Money held by a gateway, or by operators' counters for cash
+  gatewayClearing: (method: PaymentMethod): LedgerAccountRef => ({
+    code: `GATEWAY_CLEARING:${method}`,
+    name: `${method} clearing`,
+    type: 'ASSET',
+  }),
+  platformBank: (): LedgerAccountRef => ({
+    code: 'PLATFORM_BANK',
+    name: 'Platform bank account',
+    type: 'ASSET',
+  }),
+  operatorPayable: (operatorId: string): LedgerAccountRef => ({
+    code: `OPERATOR_PAYABLE:${operatorId}`,
+    name: 'Operator payable',
+    type: 'LIABILITY',
+    operatorId,
+  }),
+  // Store credit held for customers, spent like cash at checkout
+  customerWallets: (): LedgerAccountRef => ({
+    code: 'CUSTOMER_WALLETS',
+    name: 'Customer wallet balances',
+    type: 'LIABILITY',
+  }),
+  refundsPayable: (): LedgerAccountRef => ({
+    code: 'REFUNDS_PAYABLE',
+    name: 'Refunds payable to customers',
+    type: 'LIABILITY',
+  }),
+  // VAT collected from customers, owed to the tax office
+  vatPayable: (): LedgerAccountRef => ({
+    code: 'VAT_PAYABLE',
+    name: 'VAT payable',
+    type: 'LIABILITY',
+  }),
+  platformRevenue: (): LedgerAccountRef => ({
+    code: 'PLATFORM_REVENUE',
+    name: 'Platform commission revenue',
+    type: 'REVENUE',
+  }),
+  serviceFeeRevenue: (): LedgerAccountRef => ({
+    code: 'SERVICE_FEE_REVENUE',
+    name: 'Platform service fee revenue',
+    type: 'REVENUE',
+  }),
+};
+
+export class LedgerService {
+  /**
+   * Post a balanced transaction. Posting the same reference twice is a no-op,
+   * so callers can post from code paths that may run more than once.
+   */
+  async post(client: Prisma.TransactionClient, posting: LedgerPosting) {
+    const existing = await client.ledgerTransaction.findUnique({
+      where: { reference: posting.reference },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const lines = posting.lines.filter(line => (line.debit || 0) > 0 || (line.credit || 0) > 0);
+    const debits = lines.reduce((sum, line) => sum + (line.debit || 0), 0);
+    const credits = lines.reduce((sum, line) => sum + (line.credit || 0), 0);
+
+    if (debits !== credits) {
+      throw new InternalServerError(`Unbalanced ledger posting ${posting.reference}: ${debits} != ${credits}`);
+    }
+
+    if (lines.length === 0) {
+      return null;
+    }
+
+    const entries = [];
+    for (const line of lines) {
+      const account = await client.ledgerAccount.upsert({
+        where: { code: line.account.code },
+        create: line.account,
+        update: {},
+      });
+
+      entries.push({
+        accountId: account.id,
+        debit: line.debit || 0,
+        credit: line.credit || 0,
+      });
+    }
+
+    return await client.ledgerTransaction.create({
+      data: {
+        reference: posting.reference,
+        description: posting.description,
+        paymentId: posting.paymentId,
+        refundId: posting.refundId,
+        settlementId: posting.settlementId,
+        entries: {
+          create: entries,
+        },
+      },
+    });
+  }
+
+  /**
+   * The customer owes the fare to the operator, the service fee to the platform
+   * and VAT to the tax office, and settles it all through the gateway
+   */
+  async postPaymentCompleted(client: Prisma.TransactionClient, paymentId: string) {
+    const payment = await this.loadPayment(client, paymentId);
+    const operatorId = payment.booking.trip.operatorId;
+    const split = splitAmount(payment.amount, payment.booking);
+
+    return await this.post(client, {
+      reference: `PAYMENT_COMPLETED:${payment.id}`,
+      description: `${payment.method} payment ${payment.paymentReference}`,
+      paymentId: payment.id,
+      lines: [
+        { account: ledgerAccounts.customerReceivable(), debit: payment.amount },
+        { account: ledgerAccounts.operatorPayable(operatorId), credit: split.fareAmount },
+        { account: ledgerAccounts.serviceFeeRevenue(), credit: split.serviceFee },
+        { account: ledgerAccounts.vatPayable(), credit: split.vatAmount },
+        { account: this.fundingAccount(payment.method), debit: payment.amount },
+        { account: ledgerAccounts.customerReceivable(), credit: payment.amount },
+      ],
+    });
+  }
+
+  /**
+   * A refund owed to the customer comes out of the operator's share, the service
+   * fee and VAT in the booking's proportions, until it is paid or rejected
+   */
+  async postRefundRequested(client: Prisma.TransactionClient, refundId: string) {
+    const refund = await this.loadRefund(client, refundId);
+    const split = splitAmount(refund.amount, refund.booking);
+
+    return await this.post(client, {
+      reference: `REFUND_REQUESTED:${refund.id}`,
+      description: `Refund requested for payment ${refund.payment.paymentReference}`,
+      paymentId: refund.paymentId,
+      refundId: refund.id,
+      lines: [
+        { account: ledgerAccounts.operatorPayable(refund.booking.trip.operatorId), debit: split.fareAmount },
+        { account: ledgerAccounts.serviceFeeRevenue(), debit: split.serviceFee },
+        { account: ledgerAccounts.vatPayable(), debit: split.vatAmount },
+        { account: ledgerAccounts.refundsPayable(), credit: refund.amount },
+      ],
+    });
+  }
+
+  async postRefundCompleted(client: Prisma.TransactionClient, refundId: string) {
+    const refund = await this.loadRefund(client, refundId);
+    const toWallet = refund.destination === 'WALLET';
+
+    return await this.post(client, {
+      reference: `REFUND_COMPLETED:${refund.id}`,
+      description: `Refund ${toWallet ? 'credited to wallet' : 'paid'} for payment ${refund.payment.paymentReference}`,
+      paymentId: refund.paymentId,
+      refundId: refund.id,
+      lines: [
+        { account: ledgerAccounts.refundsPayable(), debit: refund.amount },
+        {
+          account: toWallet ? ledgerAccounts.customerWallets() : this.fundingAccount(refund.payment.method),
+          credit: refund.amount,
+        },
+      ],
+    });
+  }
+
+  async postRefundRejected(client: Prisma.TransactionClient, refundId: string) {
+    const refund = await this.loadRefund(client, refundId);
+    const split = splitAmount(refund.amount, refund.booking);
+
+    return await this.post(client, {
+      reference: `REFUND_REJECTED:${refund.id}`,
+      description: `Refund rejected for payment ${refund.payment.paymentReference}`,
+      paymentId: refund.paymentId,
+      refundId: refund.id,
+      lines: [
+        { account: ledgerAccounts.refundsPayable(), debit: refund.amount },
+        { account: ledgerAccounts.operatorPayable(refund.booking.trip.operatorId), credit: split.fareAmount },
+        { account: ledgerAccounts.serviceFeeRevenue(), credit: split.serviceFee },
+        { account: ledgerAccounts.vatPayable(), credit: split.vatAmount },
+      ],
+    });
+  }
+
+  /**
+   * Commission moves to platform revenue, and cash the operator kept at the
+   * counter is offset against what they are owed
+   */
+  async postSettlementCreated(client: Prisma.TransactionClient, settlementId: string) {
+    const settlement = await client.settlement.findUniqueOrThrow({
+      where: { id: settlementId },
+    });
+
+    return await this.post(client, {
+      reference: `SETTLEMENT_CREATED:${settlement.id}`,
+      description: 'Operator settlement closed',
+      settlementId: settlement.id,
+      lines: [
+        { account: ledgerAccounts.operatorPayable(settlement.operatorId), debit: settlement.commissionAmount },
+        { account: ledgerAccounts.platformRevenue(), credit: settlement.commissionAmount },
+        { account: ledgerAccounts.operatorPayable(settlement.operatorId), debit: Math.max(settlement.cashCollected, 0) },
+        { account: ledgerAccounts.gatewayClearing('CASH'), credit: Math.max(settlement.cashCollected, 0) },
+        { account: ledgerAccounts.gatewayClearing('CASH'), debit: Math.max(-settlement.cashCollected, 0) },
+        { account: ledgerAccounts.operatorPayable(settlement.operatorId), credit: Math.max(-settlement.cashCollected, 0) },
+      ],
+    });
+  }
+
+  async postSettlementPaid(client: Prisma.TransactionClient, settlementId: string) {
+    const settlement = await client.settlement.findUniqueOrThrow({
+      where: { id: settlementId },
+    });
+
+    // A negative payout is the operator paying the platform
+    const payout = settlement.netPayable;
+
+    return await this.post(client, {
+      reference: `SETTLEMENT_PAID:${settlement.id}`,
+      description: `Settlement payout ${settlement.payoutReference || ''}`.trim(),
+      settlementId: settlement.id,
+      lines: [
+        { account: ledgerAccounts.operatorPayable(settlement.operatorId), debit: Math.max(payout, 0) },
+        { account: ledgerAccounts.platformBank(), credit: Math.max(payout, 0) },
+        { account: ledgerAccounts.platformBank(), debit: Math.max(-payout, 0) },
+        { account: ledgerAccounts.operatorPayable(settlement.operatorId), credit: Math.max(-payout, 0) },
+      ],
+    });
+  }
+
+  /**
+   * Debit and credit totals per account up to `asOf`; the grand totals must agree
+   */
+  async getTrialBalance(asOf: Date = new Date()) {
+    const sums = await prisma.ledgerEntry.groupBy({
+      by: ['accountId'],
+      where: {
+        transaction: {
+          postedAt: {
+            lte: asOf,
+          },
+        },
+      },
+      _sum: {
+        debit: true,
+        credit: true,
+      },
+    });
+
+    const accounts = await prisma.ledgerAccount.findMany({
+      orderBy: {
+        code: 'asc',
+      },
+    });
+
+    const sumsByAccount = new Map(sums.map(sum => [sum.accountId, sum._sum]));
+
+    const rows = accounts.map((account) => {
+      const debit = sumsByAccount.get(account.id)?.debit || 0;
+      const credit = sumsByAccount.get(account.id)?.credit || 0;
+
+      return {
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        operatorId: account.operatorId,
+        debit,
+        credit,
+        // Positive in the account's normal direction: debit for assets, credit otherwise
+        balance: account.type === 'ASSET' ? debit - credit : credit - debit,
+      };
+    });
+
+    const totalDebit = rows.reduce((sum, row) => sum + row.debit, 0);
+    const totalCredit = rows.reduce((sum, row) => sum + row.credit, 0);
+
+    return {
+      asOf,
+      accounts: rows,
+      totals: {
+        debit: totalDebit,
+        credit: totalCredit,
+        balanced: totalDebit === totalCredit,
+      },
+    };
+  }
+
+  async getAccountEntries(code: string, page?: string, limit?: string) {
+    const { page: pageNum, limit: limitNum } = validatePagination(page, limit);
+
+    const account = await prisma.ledgerAccount.findUnique({
+      where: { code },
+    });
+
+    if (!account) {
+      throw new NotFoundError('Ledger account not found');
+    }
+
+    const total = await prisma.ledgerEntry.count({
+      where: { accountId: account.id },
+    });
+    const { skip, take, pagination } = paginationHelper(pageNum, limitNum, total);
+
+    const entries = await prisma.ledgerEntry.findMany({
+      where: { accountId: account.id },
+      skip,
+      take,
+      include: {
+        transaction: {
+          select: {
+            id: true,
+            reference: true,
+            description: true,
+            paymentId: true,
+            refundId: true,
+            settlementId: true,
+            postedAt: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return {
+      account,
+      entries,
+      pagination,
+    };
+  }
+
+  // Where a payment's money came from: a gateway or counter, or the customer's own wallet
+  private fundingAccount(method: PaymentMethod): LedgerAccountRef {
+    return method === 'WALLET' ? ledgerAccounts.customerWallets() : ledgerAccounts.gatewayClearing(method);
+  }
+
+  private async loadPayment(client: Prisma.TransactionClient, paymentId: string) {
+    return await client.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      include: {
+        booking: {
+          select: {
+            serviceFee: true,
+            vatAmount: true,
+            totalAmount: true,
+            trip: {
+              select: {
+                operatorId: true,
+              },
+            },
+          },
+        },
+      },
+    });
+  }
+
+  private async loadRefund(client: Prisma.TransactionClient, refundId: string) {
+    return await client.refund.findUniqueOrThrow({
+      where: { id: refundId },
+      include: {
+        payment: {
+          select: {
+            paymentReference: true,
+            method: true,
+          },
+        },
+        booking: {
+          select: {
+            serviceFee: true,
+            vatAmount: true,
+            totalAmount: true,
+            trip: {
+              select: {
+                operatorId: true,
+              },
+            },
+          },
+        },
+      },
+    });
+  }
+}
+
+export const ledgerService = new LedgerService();
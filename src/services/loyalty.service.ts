@@ -0,0 +1,445 @@
+import prisma from '@/config/database';
+import config from '@/config';
+import { BadRequestError } from '@/utils/errors';
+import { validatePagination, paginationHelper } from '@/utils/response';
+import { LoyaltyTier, LoyaltyTransactionType, Prisma } from '@prisma/client';
+
+interface LoyaltyPerks {
+  earnMultiplier: number;
+  freeCancellation: boolean; // Full refund whatever the operator's policy
+}
+
+export const LOYALTY_TIER_PERKS: Record<LoyaltyTier, LoyaltyPerks> = {
+  MEMBER: { earnMultiplier: 1, freeCancellation: false },
+  SILVER: { earnMultiplier: 1.25, freeCancellation: false },
+  GOLD: { earnMultiplier: 1.5, freeCancellation: true },
+};
+
+interface LoyaltyCredit {
+  type: LoyaltyTransactionType;
+  points: number;
+  description: string;
+  bookingId?: string;
+}
+
+export class LoyaltyService {
+  async getSummary(userId: string) {
+    const account = await prisma.loyaltyAccount.findUnique({
+      where: { userId },
+    });
+
+    const tier = account ? account.tier : 'MEMBER';
+    const lifetimePoints = account ? account.lifetimePoints : 0;
+    const nextTier = this.nextTier(tier);
+
+    const expiring = account
+      ? await prisma.loyaltyTransaction.findFirst({
+        where: {
+          accountId: account.id,
+          remainingPoints: { gt: 0 },
+          expiresAt: { gt: new Date() },
+        },
+        select: {
+          remainingPoints: true,
+          expiresAt: true,
+        },
+        orderBy: { expiresAt: 'asc' },
+      })
+      : null;
+
+    return {
+      balance: account ? account.balance : 0,
+      pointValue: config.loyalty.pointValue,
+      lifetimePoints,
+      tier,
+      perks: LOYALTY_TIER_PERKS[tier],
+      nextTier: nextTier && {
+        tier: nextTier.tier,
+        pointsNeeded: nextTier.threshold - lifetimePoints,
+      },
+      nextExpiry: expiring && {
+        points: expiring.remainingPoints,
+        expiresAt: expiring.expiresAt,
+      },
+    };
+  }
+
+  async getStatement(userId: string, page?: string, limit?: string, type?: string) {
+    const { page: pageNum, limit: limitNum } = validatePagination(page, limit);
+
+    const where: Prisma.LoyaltyTransactionWhereInput = {
+      account: {
+        userId,
+      },
+    };
+
+    if (type) {
+      where.type = type as LoyaltyTransactionType;
+    }
+
+    const total = await prisma.loyaltyTransaction.count({ where });
+    const { skip, take, pagination } = paginationHelper(pageNum, limitNum, total);
+
+    const transactions = await prisma.loyaltyTransaction.findMany({
+      where,
+      skip,
+      take,
+      select: {
+        id: true,
+        type: true,
+        points: true,
+        remainingPoints: true,
+        expiresAt: true,
+        balanceAfter: true,
+        description: true,
+        createdAt: true,
+        booking: {
+          select: {
+            id: true,
+            bookingReference: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return {
+      transactions,
+      pagination,
+    };
+  }
+
+  async getPerks(userId: string, client: Prisma.TransactionClient = prisma) {
+    const account = await client.loyaltyAccount.findUnique({
+      where: { userId },
+      select: { tier: true },
+    });
+
+    return LOYALTY_TIER_PERKS[account ? account.tier : 'MEMBER'];
+  }
+
+  /**
+   * Discount for redeeming `points` against what is left of the fare; a booking
+   * cannot be paid for entirely in points beyond that
+   */
+  quoteRedemption(points: number, payableAmount: number): number {
+    const discount = points * config.loyalty.pointValue;
+
+    if (discount > payableAmount) {
+      throw new BadRequestError(
+        `At most ${Math.floor(payableAmount / config.loyalty.pointValue)} points can be redeemed on this booking`
+      );
+    }
+
+    return discount;
+  }
+
+  /**
+   * Spend points on a booking, oldest credits first. Call inside the booking's
+   * SERIALIZABLE transaction.
+   */
+  async redeem(tx: Prisma.TransactionClient, userId: string, points: number, bookingId: string, bookingReference: string) {
+    const account = await tx.loyaltyAccount.findUnique({
+      where: { userId },
+    });
+
+    const credits = account
+      ? await tx.loyaltyTransaction.findMany({
+        where: {
+          accountId: account.id,
+          remainingPoints: { gt: 0 },
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { expiresAt: 'asc' },
+      })
+      : [];
+
+    const available = credits.reduce((sum, credit) => sum + credit.remainingPoints, 0);
+
+    if (!account || available < points) {
+      throw new BadRequestError('Insufficient loyalty points');
+    }
+
+    let outstanding = points;
+    for (const credit of credits) {
+      if (outstanding === 0) {
+        break;
+      }
+
+      const spent = Math.min(credit.remainingPoints, outstanding);
+      await tx.loyaltyTransaction.update({
+        where: { id: credit.id },
+        data: {
+          remainingPoints: {
+            decrement: spent,
+          },
+        },
+      });
+      outstanding -= spent;
+    }
+
+    const updated = await tx.loyaltyAccount.update({
+      where: { id: account.id },
+      data: {
+        balance: {
+          decrement: points,
+        },
+      },
+    });
+
+    return await tx.loyaltyTransaction.create({
+      data: {
+        accountId: account.id,
+        type: 'REDEEM',
+        points: -points,
+        balanceAfter: updated.balance,
+        description: `Redeemed on booking ${bookingReference}`,
+        bookingId,
+      },
+    });
+  }
+
+  /**
+   * Give back the points a cancelled or expired booking redeemed, as a fresh credit
+   */
+  async restoreRedeemed(tx: Prisma.TransactionClient, booking: { id: string; userId: string; bookingReference: string; pointsRedeemed: number }) {
+    if (booking.pointsRedeemed <= 0) {
+      return null;
+    }
+
+    const existing = await tx.loyaltyTransaction.findFirst({
+      where: {
+        bookingId: booking.id,
+        type: 'RESTORE',
+      },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    return await this.credit(tx, booking.userId, {
+      type: 'RESTORE',
+      points: booking.pointsRedeemed,
+      description: `Returned from cancelled booking ${booking.bookingReference}`,
+      bookingId: booking.id,
+    });
+  }
+
+  /**
+   * Award points for a completed booking: per Rs. 100 of fare paid before tax and
+   * per 100 km travelled per seat, boosted by the customer's tier. Awarded once.
+   */
+  async earnForBooking(tx: Prisma.TransactionClient, bookingId: string) {
+    const existing = await tx.loyaltyTransaction.findFirst({
+      where: {
+        bookingId,
+        type: 'EARN',
+      },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const booking = await tx.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      include: {
+        user: {
+          select: {
+            role: true,
+          },
+        },
+        trip: {
+          select: {
+            route: {
+              select: {
+                distance: true,
+              },
+            },
+          },
+        },
+        boardings: {
+          where: {
+            status: 'NO_SHOW',
+          },
+          select: {
+            id: true,
+          },
+        },
+      },
+    });
+
+    // Walk-in sales are booked under the operator's account
+    if (booking.user.role !== 'CUSTOMER') {
+      return null;
+    }
+
+    // Passengers who never boarded earn nothing
+    const seatCount = booking.seatNumbers.length - booking.boardings.length;
+    const farePaid = ((booking.baseFare * booking.seatNumbers.length - booking.discountAmount) * seatCount) /
+      booking.seatNumbers.length;
+    const perks = await this.getPerks(booking.userId, tx);
+
+    const points = Math.floor(
+      ((farePaid / 10000) * config.loyalty.pointsPer100Rupees +
+        (booking.trip.route.distance / 100) * seatCount * config.loyalty.pointsPer100Km) *
+        perks.earnMultiplier
+    );
+
+    if (points <= 0) {
+      return null;
+    }
+
+    return await this.credit(tx, booking.userId, {
+      type: 'EARN',
+      points,
+      description: `Earned on booking ${booking.bookingReference}`,
+      bookingId: booking.id,
+    });
+  }
+
+  /**
+   * Write off credits past their expiry date
+   */
+  async expirePoints() {
+    const expiredCredits = await prisma.loyaltyTransaction.findMany({
+      where: {
+        remainingPoints: { gt: 0 },
+        expiresAt: { lte: new Date() },
+      },
+      select: {
+        id: true,
+        accountId: true,
+        remainingPoints: true,
+      },
+      take: 500,
+    });
+
+    let expiredPoints = 0;
+
+    for (const credit of expiredCredits) {
+      try {
+        const expired = await prisma.$transaction(async (tx) => {
+          // A redemption may have spent part of the credit since it was read
+          const claimed = await tx.loyaltyTransaction.updateMany({
+            where: {
+              id: credit.id,
+              remainingPoints: credit.remainingPoints,
+            },
+            data: {
+              remainingPoints: 0,
+            },
+          });
+
+          if (claimed.count === 0) {
+            return 0;
+          }
+
+          const account = await tx.loyaltyAccount.update({
+            where: { id: credit.accountId },
+            data: {
+              balance: {
+                decrement: credit.remainingPoints,
+              },
+            },
+          });
+
+          await tx.loyaltyTransaction.create({
+            data: {
+              accountId: account.id,
+              type: 'EXPIRE',
+              points: -credit.remainingPoints,
+              balanceAfter: account.balance,
+              description: 'Points expired',
+            },
+          });
+
+          return credit.remainingPoints;
+        });
+
+        expiredPoints += expired;
+      } catch (error) {
+        console.error(`[Loyalty Service] Error expiring loyalty credit ${credit.id}:`, error);
+      }
+    }
+
+    return {
+      totalCreditsProcessed: expiredCredits.length,
+      expiredPoints,
+    };
+  }
+
+  private async credit(tx: Prisma.TransactionClient, userId: string, credit: LoyaltyCredit) {
+    const earned = credit.type === 'EARN' ? credit.points : 0;
+
+    const account = await tx.loyaltyAccount.upsert({
+      where: { userId },
+      create: {
+        userId,
+        balance: credit.points,
+        lifetimePoints: earned,
+      },
+      update: {
+        balance: {
+          increment: credit.points,
+        },
+        lifetimePoints: {
+          increment: earned,
+        },
+      },
+    });
+
+    const tier = this.tierFor(account.lifetimePoints);
+    if (tier !== account.tier) {
+      await tx.loyaltyAccount.update({
+        where: { id: account.id },
+        data: { tier },
+      });
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setMonth(expiresAt.getMonth() + config.loyalty.expiryMonths);
+
+    return await tx.loyaltyTransaction.create({
+      data: {
+        accountId: account.id,
+        type: credit.type,
+        points: credit.points,
+        remainingPoints: credit.points,
+        expiresAt,
+        balanceAfter: account.balance,
+        description: credit.description,
+        bookingId: credit.bookingId,
+      },
+    });
+  }
+
+  private tierFor(lifetimePoints: number): LoyaltyTier {
+    if (lifetimePoints >= config.loyalty.goldThreshold) {
+      return 'GOLD';
+    }
+
+    if (lifetimePoints >= config.loyalty.silverThreshold) {
+      return 'SILVER';
+    }
+
+    return 'MEMBER';
+  }
+
+  private nextTier(tier: LoyaltyTier): { tier: LoyaltyTier; threshold: number } | null {
+    if (tier === 'MEMBER') {
+      return { tier: 'SILVER', threshold: config.loyalty.silverThreshold };
+    }
+
+    if (tier === 'SILVER') {
+      return { tier: 'GOLD', threshold: config.loyalty.goldThreshold };
+    }
+
+    return null;
+  }
+}
+
+export const loyaltyService = new LoyaltyService();
@@ -0,0 +1,49 @@
+import config from '@/config';
+import { loyaltyService } from '@/services/loyalty.service';
+
+class LoyaltyExpiryScheduler {
+    private isRunning: boolean = false;
+    private intervalId: NodeJS.Timeout | null = null;
+
+    /**
+     * Start writing off loyalty points past their expiry date
+     */
+    public start(): void {
+        const intervalMs = config.loyalty.expirySweepIntervalMs;
+
+        this.intervalId = setInterval(async () => {
+            if (this.isRunning) {
+                return;
+            }
+
+            this.isRunning = true;
+
+            try {
+                const result = await loyaltyService.expirePoints();
+
+                if (result.expiredPoints > 0) {
+                    console.log(`[Loyalty Expiry Scheduler] Expired ${result.expiredPoints} points from ${result.totalCreditsProcessed} credits`);
+                }
+            } catch (error) {
+                console.error('[Loyalty Expiry Scheduler] Error expiring loyalty points:', error);
+            } finally {
+                this.isRunning = false;
+            }
+        }, intervalMs);
+
+        console.log(`[Loyalty Expiry Scheduler] Scheduler started - will run every ${intervalMs / 1000} seconds`);
+    }
+
+    /**
+     * Stop the loyalty expiry scheduler
+     */
+    public stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        console.log('[Loyalty Expiry Scheduler] Scheduler stopped');
+    }
+}
+
+export const loyaltyExpiryScheduler = new LoyaltyExpiryScheduler();
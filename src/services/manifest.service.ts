@@ -0,0 +1,99 @@
+import prisma from '@/config/database';
+import { NotFoundError, ForbiddenError } from '@/utils/errors';
+import { toCsv } from '@/utils/csv';
+import { renderManifestPdf } from '@/utils/manifestPdf';
+import { boardingService } from '@/services/boarding.service';
+import { UserRole } from '@prisma/client';
+
+export class ManifestService {
+  /**
+   * Everyone booked on a trip in seat order, for the checkpoint before departure
+   */
+  async getManifest(tripId: string, userRole: UserRole, userId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        id: true,
+        departureTime: true,
+        arrivalTime: true,
+        status: true,
+        route: {
+          select: {
+            origin: true,
+            destination: true,
+          },
+        },
+        bus: {
+          select: {
+            busNumber: true,
+            busType: true,
+          },
+        },
+        operator: {
+          select: {
+            userId: true,
+            companyName: true,
+            licenseNo: true,
+          },
+        },
+      },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    if (userRole !== 'ADMIN' && trip.operator.userId !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    const passengers = await boardingService.getTripPassengers(tripId);
+
+    return {
+      trip: {
+        id: trip.id,
+        status: trip.status,
+        origin: trip.route.origin,
+        destination: trip.route.destination,
+        departureTime: trip.departureTime,
+        arrivalTime: trip.arrivalTime,
+        busNumber: trip.bus.busNumber,
+        busType: trip.bus.busType,
+        operatorName: trip.operator.companyName,
+        licenseNo: trip.operator.licenseNo,
+      },
+      generatedAt: new Date(),
+      totalPassengers: passengers.length,
+      passengers,
+    };
+  }
+
+  async getManifestCsv(tripId: string, userRole: UserRole, userId: string) {
+    const manifest = await this.getManifest(tripId, userRole, userId);
+
+    const csv = toCsv(
+      ['Seat', 'Passenger', 'Phone', 'Booking Reference', 'Boarding Status', 'Boarded At'],
+      manifest.passengers.map(passenger => [
+        passenger.seatNumber,
+        passenger.name,
+        passenger.phone,
+        passenger.bookingReference,
+        passenger.boardingStatus,
+        passenger.boardedAt ? passenger.boardedAt.toISOString() : null,
+      ])
+    );
+
+    return { manifest, csv };
+  }
+
+  async getManifestPdf(tripId: string, userRole: UserRole, userId: string) {
+    const manifest = await this.getManifest(tripId, userRole, userId);
+
+    return {
+      manifest,
+      pdf: await renderManifestPdf(manifest),
+    };
+  }
+}
+
+export const manifestService = new ManifestService();
@@ -3,13 +3,18 @@ import { NotFoundError, BadRequestError, ForbiddenError } from '@/utils/errors';
 import { PaymentRequest, PaymentGatewayResponse } from '@/types';
 import { generatePaymentReference } from '@/utils/auth';
 import { validatePagination, paginationHelper } from '@/utils/response';
-import config from '@/config';
-import { UserRole } from '@prisma/client';
+import { Payment, PaymentMethod, Prisma, UserRole } from '@prisma/client';
+import { paymentProviders, PaymentCallbackParams, PaymentVerification } from '@/providers';
+import { ledgerService } from '@/services/ledger.service';
+import { bookingBalanceService } from '@/services/bookingBalance.service';
+import { refundService, fullRefund } from '@/services/refund.service';
 
 export class PaymentService {
   async initiatePayment(data: PaymentRequest, userId: string) {
     const { bookingId, method, amount } = data;
 
+    const provider = paymentProviders.get(method);
+
     // Verify booking exists and belongs to user
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
@@ -21,9 +26,11 @@ export class PaymentService {
             status: true,
           },
         },
-        payments: {
-          where: {
-            status: 'COMPLETED',
+        user: {
+          select: {
+            name: true,
+            email: true,
+            phone: true,
           },
         },
       },
@@ -45,14 +52,23 @@ export class PaymentService {
       throw new BadRequestError('Booking is already paid');
     }
 
-    // Check if booking has already been paid
-    if (booking.payments.length > 0) {
+    const deadline = await bookingBalanceService.getPaymentDeadline(prisma, bookingId);
+
+    if (deadline && deadline <= new Date()) {
+      throw new BadRequestError('Payment deadline for this booking has passed');
+    }
+
+    // Wallet payments, or payments made before a booking change, may already cover part of it.
+    // A journey is paid for in one go from any of its legs.
+    const amountDue = await bookingBalanceService.getAmountDue(prisma, bookingId);
+
+    if (amountDue <= 0) {
       throw new BadRequestError('Booking is already paid');
     }
 
     // Validate amount
-    if (amount !== booking.totalAmount) {
-      throw new BadRequestError('Payment amount does not match booking amount');
+    if (amount !== amountDue) {
+      throw new BadRequestError('Payment amount does not match the amount due');
     }
 
     // Check if trip is still valid
@@ -76,28 +92,25 @@ export class PaymentService {
       },
     });
 
-    // Generate payment gateway URL based on method
-    let gatewayUrl = '';
-    let gatewayData = {};
+    let initiation;
 
-    if (method === 'ESEWA') {
-      gatewayUrl = await this.generateEsewaUrl(payment, booking);
-      gatewayData = {
-        merchantId: config.esewa.merchantId,
-        amount: payment.amount,
-        reference: payment.paymentReference,
-        successUrl: config.esewa.successUrl,
-        failureUrl: config.esewa.failureUrl,
-      };
-    } else if (method === 'KHALTI') {
-      gatewayUrl = await this.generateKhaltiUrl(payment, booking);
-      gatewayData = {
-        publicKey: config.khalti.publicKey,
-        amount: payment.amount * 100, // Khalti uses paisa
-        reference: payment.paymentReference,
-        successUrl: config.khalti.successUrl,
-        failureUrl: config.khalti.failureUrl,
-      };
+    try {
+      initiation = await provider.initiate(payment, booking.user);
+    } catch (error) {
+      // Nothing reached the gateway, so there is nothing for reconciliation to look up
+      await this.failPayment(payment.id, {
+        message: error instanceof Error ? error.message : 'Payment initiation failed',
+      });
+      throw error;
+    }
+
+    if (initiation.gatewayResponse) {
+      await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          gatewayResponse: initiation.gatewayResponse as Prisma.InputJsonObject,
+        },
+      });
     }
 
     return {
@@ -108,59 +121,15 @@ export class PaymentService {
         method: payment.method,
         status: payment.status,
       },
-      gatewayUrl,
-      gatewayData,
+      gatewayUrl: initiation.gatewayUrl,
+      gatewayData: initiation.gatewayData,
     };
   }
 
-  private async generateEsewaUrl(payment: any, booking: any): Promise<string> {
-    const params = new URLSearchParams({
-      amt: payment.amount.toString(),
-      pcd: config.esewa.merchantId,
-      psc: '0',
-      txAmt: '0',
-      tAmt: payment.amount.toString(),
-      pid: payment.paymentReference,
-      scd: config.esewa.merchantId,
-      su: config.esewa.successUrl,
-      fu: config.esewa.failureUrl,
-    });
-
-    return `https://uat.esewa.com.np/epay/main?${params.toString()}`;
-  }
-
-  private async generateKhaltiUrl(payment: any, booking: any): Promise<string> {
-    const response = await fetch('https://dev.khalti.com/api/v2/epayment/initiate/', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Key ${config.khalti.secretKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        return_url: config.khalti.successUrl,
-        website_url: config.website.url,
-        amount: payment.amount * 100, // paisa
-        purchase_order_id: payment.paymentReference,
-        purchase_order_name: 'Trip Booking',
-        customer_info: {
-          name: booking.userName || 'N/A',
-          email: booking.userEmail || 'noemail@example.com',
-          phone: booking.userPhone || '9800000000',
-        },
-      }),
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      console.error('Khalti payment initiation failed:', data);
-      throw new Error('Failed to initiate payment with Khalti');
-    }
-
-    return (data as { payment_url: string })?.payment_url;
-  }
-
-  async verifyEsewaPayment(paymentReference: string, oid: string, refId: string) {
+  /**
+   * Verify a payment with its provider after the customer returns from the gateway
+   */
+  async verifyPayment(paymentReference: string, params: PaymentCallbackParams, method?: PaymentMethod) {
     const payment = await prisma.payment.findUnique({
       where: { paymentReference },
       include: {
@@ -176,146 +145,202 @@ export class PaymentService {
       throw new NotFoundError('Payment not found');
     }
 
-    if (payment.status === 'COMPLETED') {
-      throw new BadRequestError('Payment already completed');
-    }
-
-    // In real implementation, verify payment with eSewa API
-    // For now, simulating successful verification
-    const verificationResult = await this.verifyWithEsewaAPI(oid, refId, payment.amount);
-
-    if (verificationResult.success) {
-      return await this.completePayment(payment.id, {
-        transactionId: refId,
-        status: 'success',
-        amount: payment.amount,
-        gatewayResponse: verificationResult,
-      });
-    } else {
-      return await this.failPayment(payment.id, verificationResult);
-    }
-  }
-
-  async verifyKhaltiPayment(paymentReference: string, token: string) {
-    const payment = await prisma.payment.findUnique({
-      where: { paymentReference },
-      include: {
-        booking: {
-          include: {
-            trip: true,
-          },
-        },
-      },
-    });
-
-
-    if (!payment) {
-      throw new NotFoundError('Payment not found');
+    if (method && payment.method !== method) {
+      throw new BadRequestError(`Payment was not made with ${method}`);
     }
 
     if (payment.status === 'COMPLETED') {
       throw new BadRequestError('Payment already completed');
     }
 
-    // In real implementation, verify payment with Khalti API
-    // For now, simulating successful verification
-    const verificationResult = await this.verifyWithKhaltiAPI(token, payment.amount);
+    const provider = paymentProviders.get(payment.method);
+    const verification = await provider.verify(payment, params);
+    const settlement = await this.applyVerification(payment, verification);
 
-    if (verificationResult.success) {
-      return await this.completePayment(payment.id, {
-        transactionId: token,
-        status: 'success',
-        amount: payment.amount,
-        gatewayResponse: verificationResult,
-      });
-    } else {
-      return await this.failPayment(payment.id, verificationResult);
+    if (settlement.outcome === 'STILL_PENDING') {
+      throw new BadRequestError(`Payment is not complete yet: ${verification.message || 'pending at gateway'}`);
     }
+
+    return settlement.payment;
   }
 
-  private async verifyWithEsewaAPI(oid: string, refId: string, amount: number): Promise<any> {
-    // Simulate API call to eSewa
-    // In real implementation, make actual API call
+  /**
+   * Re-query the provider for a payment nobody came back to verify
+   */
+  async reconcilePayment(payment: Payment) {
+    const provider = paymentProviders.get(payment.method);
+    const verification = await provider.verify(payment, {});
+
     return {
-      success: true,
-      transactionId: refId,
-      amount: amount,
-      status: 'COMPLETE',
-      message: 'Payment verified successfully',
+      verification,
+      ...(await this.applyVerification(payment, verification)),
     };
   }
 
-  private async verifyWithKhaltiAPI(token: string, amount: number): Promise<any> {
-    // Simulate API call to Khalti
-    // In real implementation, make actual API call
-    return {
-      success: true,
-      transactionId: token,
-      amount: amount,
-      status: 'COMPLETE',
-      message: 'Payment verified successfully',
-    };
+  /**
+   * Move a payment to the state its provider reported. Only a completed
+   * verification for the exact payment amount confirms the booking.
+   */
+  private async applyVerification(payment: Payment, verification: PaymentVerification) {
+    switch (verification.status) {
+      case 'COMPLETED':
+        if (verification.amount !== payment.amount) {
+          return {
+            outcome: 'AMOUNT_MISMATCH' as const,
+            payment: await this.failPayment(payment.id, {
+              ...verification.gatewayResponse,
+              message: 'Gateway amount does not match payment amount',
+            }),
+          };
+        }
+
+        return {
+          outcome: 'MATCHED' as const,
+          payment: await this.completePayment(payment.id, {
+            ...verification.gatewayResponse,
+            transactionId: verification.transactionId || payment.paymentReference,
+            status: 'success',
+            amount: payment.amount,
+          }),
+        };
+
+      case 'PENDING':
+        return {
+          outcome: 'STILL_PENDING' as const,
+          payment: await prisma.payment.update({
+            where: { id: payment.id },
+            data: {
+              gatewayResponse: verification.gatewayResponse as Prisma.InputJsonObject,
+            },
+            include: {
+              booking: true,
+            },
+          }),
+        };
+
+      case 'REFUNDED':
+        return {
+          outcome: 'REFUNDED' as const,
+          payment: await prisma.payment.update({
+            where: { id: payment.id },
+            data: {
+              status: 'REFUNDED',
+              gatewayResponse: verification.gatewayResponse as Prisma.InputJsonObject,
+            },
+            include: {
+              booking: true,
+            },
+          }),
+        };
+
+      default:
+        return {
+          outcome: verification.status === 'NOT_FOUND' ? 'NOT_FOUND' as const : 'FAILED' as const,
+          payment: await this.failPayment(payment.id, {
+            ...verification.gatewayResponse,
+            message: verification.message,
+          }),
+        };
+    }
   }
 
+  /**
+   * Mark a payment completed and confirm its booking. Safe to call more than once:
+   * the webhook and the browser redirect can both report the same payment.
+   */
   private async completePayment(paymentId: string, gatewayResponse: PaymentGatewayResponse) {
-    const payment = await prisma.payment.update({
-      where: { id: paymentId },
-      data: {
-        status: 'COMPLETED',
-        transactionId: gatewayResponse.transactionId,
-        gatewayResponse: gatewayResponse,
-      },
-      include: {
-        booking: {
-          include: {
-            trip: {
-              select: {
-                id: true,
-                departureTime: true,
-                arrivalTime: true,
-                bus: {
-                  select: {
-                    busNumber: true,
-                    busType: true,
+    return await prisma.$transaction(async (tx) => {
+      const completed = await tx.payment.updateMany({
+        where: {
+          id: paymentId,
+          status: {
+            in: ['PENDING', 'FAILED'],
+          },
+        },
+        data: {
+          status: 'COMPLETED',
+          transactionId: gatewayResponse.transactionId,
+          gatewayResponse: gatewayResponse,
+          completedAt: new Date(),
+        },
+      });
+
+      const payment = await tx.payment.findUniqueOrThrow({
+        where: { id: paymentId },
+        include: {
+          booking: {
+            include: {
+              trip: {
+                select: {
+                  id: true,
+                  departureTime: true,
+                  arrivalTime: true,
+                  bus: {
+                    select: {
+                      busNumber: true,
+                      busType: true,
+                    },
                   },
-                },
-                route: {
-                  select: {
-                    origin: true,
-                    destination: true,
+                  route: {
+                    select: {
+                      origin: true,
+                      destination: true,
+                    },
                   },
                 },
               },
             },
           },
         },
-      },
-    });
+      });
 
-    // Update booking status to confirmed
-    await prisma.booking.update({
-      where: { id: payment.bookingId },
-      data: {
-        status: 'CONFIRMED',
-      },
-    });
+      if (completed.count > 0) {
+        await ledgerService.postPaymentCompleted(tx, payment.id);
+
+        const confirmed = await bookingBalanceService.confirmIfPaid(tx, payment.bookingId, payment.id);
+
+        // Money that arrives after the booking expired or was cancelled, or after the
+        // change it paid for expired, e.g. a late gateway confirmation of a payment
+        // already marked failed, is given back in full
+        if (!confirmed && payment.booking.status !== 'PENDING') {
+          await refundService.requestRefundsForPayments(
+            tx,
+            payment.bookingId,
+            [payment],
+            fullRefund,
+            payment.booking.status === 'CANCELLED'
+              ? 'Payment received after the booking was cancelled'
+              : 'Payment received with nothing left to pay on the booking',
+            'ORIGINAL_METHOD'
+          );
+        }
+      }
 
-    return payment;
+      return payment;
+    });
   }
 
+  /**
+   * Mark a pending payment failed; a payment that completed meanwhile is left alone
+   */
   private async failPayment(paymentId: string, gatewayResponse: any) {
-    const payment = await prisma.payment.update({
-      where: { id: paymentId },
+    await prisma.payment.updateMany({
+      where: {
+        id: paymentId,
+        status: 'PENDING',
+      },
       data: {
         status: 'FAILED',
         gatewayResponse: gatewayResponse,
       },
+    });
+
+    return await prisma.payment.findUniqueOrThrow({
+      where: { id: paymentId },
       include: {
         booking: true,
       },
     });
-
-    return payment;
   }
 
   async getPaymentById(paymentId: string, userId?: string, userRole?: UserRole) {
@@ -0,0 +1,147 @@
+import prisma from '@/config/database';
+import { AppError } from '@/utils/errors';
+import { validatePagination, paginationHelper } from '@/utils/response';
+import { PaymentService } from '@/services/payment.service';
+import { paymentProviders, PaymentWebhookRequest } from '@/providers';
+import { WEBHOOK_SIGNATURE_HEADER } from '@/utils/webhook';
+import { PaymentMethod, Prisma, WebhookEventStatus } from '@prisma/client';
+
+const paymentService = new PaymentService();
+
+// Headers worth keeping in the event log; everything else is dropped
+const LOGGED_HEADERS = [WEBHOOK_SIGNATURE_HEADER, 'user-agent', 'content-type', 'x-forwarded-for'];
+
+export class PaymentWebhookService {
+  /**
+   * Record an inbound gateway notification and settle the payment it refers to.
+   * The gateway is always re-queried through verifyPayment, so a webhook can only
+   * move a payment to the state the provider reports.
+   */
+  async handleWebhook(slug: string, request: PaymentWebhookRequest) {
+    const provider = paymentProviders.fromSlug(slug);
+
+    const event = await prisma.paymentWebhookEvent.create({
+      data: {
+        method: provider.method,
+        payload: request.body as Prisma.InputJsonObject,
+        headers: Object.fromEntries(
+          LOGGED_HEADERS
+            .filter(name => request.headers[name] !== undefined)
+            .map(name => [name, request.headers[name] as string])
+        ),
+      },
+    });
+
+    let webhook;
+    try {
+      webhook = provider.parseWebhook(request);
+    } catch (error) {
+      await this.finish(event.id, 'REJECTED', { error: this.describe(error) });
+      throw error;
+    }
+
+    await prisma.paymentWebhookEvent.update({
+      where: { id: event.id },
+      data: {
+        paymentReference: webhook.paymentReference,
+        transactionId: webhook.transactionId,
+      },
+    });
+
+    const alreadyProcessed = await prisma.paymentWebhookEvent.findFirst({
+      where: {
+        id: { not: event.id },
+        method: provider.method,
+        transactionId: webhook.transactionId,
+        status: 'PROCESSED',
+      },
+      select: { id: true },
+    });
+
+    if (alreadyProcessed) {
+      return await this.finish(event.id, 'DUPLICATE');
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: { paymentReference: webhook.paymentReference },
+      select: { id: true, method: true, status: true },
+    });
+
+    if (!payment || payment.method !== provider.method) {
+      return await this.finish(event.id, 'IGNORED', { error: 'Unknown payment reference' });
+    }
+
+    if (payment.status !== 'PENDING' && payment.status !== 'FAILED') {
+      return await this.finish(event.id, 'IGNORED', {
+        paymentId: payment.id,
+        error: `Payment is already ${payment.status.toLowerCase()}`,
+      });
+    }
+
+    try {
+      await paymentService.verifyPayment(webhook.paymentReference, webhook.params, provider.method);
+    } catch (error) {
+      const failed = await this.finish(event.id, 'FAILED', { paymentId: payment.id, error: this.describe(error) });
+
+      // Still pending or rejected by our checks: acknowledge so the gateway stops retrying
+      if (error instanceof AppError) {
+        return failed;
+      }
+      throw error;
+    }
+
+    return await this.finish(event.id, 'PROCESSED', { paymentId: payment.id });
+  }
+
+  async getWebhookEvents(page?: string, limit?: string, status?: string, method?: string) {
+    const { page: pageNum, limit: limitNum } = validatePagination(page, limit);
+
+    const where: Prisma.PaymentWebhookEventWhereInput = {};
+
+    if (status) {
+      where.status = status as WebhookEventStatus;
+    }
+
+    if (method) {
+      where.method = method as PaymentMethod;
+    }
+
+    const total = await prisma.paymentWebhookEvent.count({ where });
+    const { skip, take, pagination } = paginationHelper(pageNum, limitNum, total);
+
+    const events = await prisma.paymentWebhookEvent.findMany({
+      where,
+      skip,
+      take,
+      orderBy: {
+        receivedAt: 'desc',
+      },
+    });
+
+    return {
+      events,
+      pagination,
+    };
+  }
+
+  private async finish(
+    eventId: string,
+    status: WebhookEventStatus,
+    data: { paymentId?: string; error?: string } = {}
+  ) {
+    return await prisma.paymentWebhookEvent.update({
+      where: { id: eventId },
+      data: {
+        status,
+        ...data,
+        processedAt: new Date(),
+      },
+    });
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export const paymentWebhookService = new PaymentWebhookService();
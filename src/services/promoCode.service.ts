@@ -0,0 +1,345 @@
+import prisma from '@/config/database';
+import { NotFoundError, BadRequestError, ForbiddenError, ConflictError } from '@/utils/errors';
+import { CreatePromoCodeRequest, UpdatePromoCodeRequest, ValidatePromoCodeRequest } from '@/types';
+import { validatePagination, paginationHelper } from '@/utils/response';
+import { isUniqueViolation } from '@/utils/transaction';
+import { calculateFare, percentOf } from '@/utils/money';
+import { Prisma, PromoCode, UserRole } from '@prisma/client';
+
+interface PromoTrip {
+  id: string;
+  routeId: string;
+  operatorId: string;
+  busId: string;
+  price: number;
+}
+
+export class PromoCodeService {
+  async createPromoCode(data: CreatePromoCodeRequest, userRole: UserRole, userId: string) {
+    const operatorId = userRole === 'OPERATOR'
+      ? (await this.getOperatorProfile(userId)).id
+      : data.operatorId;
+
+    this.assertValidTerms(data.discountType, data.discountValue, new Date(data.validFrom), new Date(data.validUntil));
+
+    try {
+      return await prisma.promoCode.create({
+        data: {
+          ...data,
+          code: data.code.toUpperCase(),
+          validFrom: new Date(data.validFrom),
+          validUntil: new Date(data.validUntil),
+          operatorId,
+          createdById: userId,
+        },
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictError('Promo code already exists');
+      }
+      throw error;
+    }
+  }
+
+  async updatePromoCode(promoCodeId: string, data: UpdatePromoCodeRequest, userRole: UserRole, userId: string) {
+    const promoCode = await this.getManageablePromoCode(promoCodeId, userRole, userId);
+
+    this.assertValidTerms(
+      promoCode.discountType,
+      data.discountValue ?? promoCode.discountValue,
+      data.validFrom ? new Date(data.validFrom) : promoCode.validFrom,
+      data.validUntil ? new Date(data.validUntil) : promoCode.validUntil
+    );
+
+    return await prisma.promoCode.update({
+      where: { id: promoCodeId },
+      data: {
+        ...data,
+        validFrom: data.validFrom ? new Date(data.validFrom) : undefined,
+        validUntil: data.validUntil ? new Date(data.validUntil) : undefined,
+      },
+    });
+  }
+
+  async getPromoCodes(
+    userRole: UserRole,
+    userId: string,
+    page?: string,
+    limit?: string,
+    isActive?: string
+  ) {
+    const { page: pageNum, limit: limitNum } = validatePagination(page, limit);
+
+    const where: Prisma.PromoCodeWhereInput = {};
+
+    if (isActive !== undefined) {
+      where.isActive = isActive === 'true';
+    }
+
+    if (userRole === 'OPERATOR') {
+      where.operator = { userId };
+    }
+
+    const total = await prisma.promoCode.count({ where });
+    const { skip, take, pagination } = paginationHelper(pageNum, limitNum, total);
+
+    const promoCodes = await prisma.promoCode.findMany({
+      where,
+      skip,
+      take,
+      include: {
+        _count: {
+          select: {
+            redemptions: {
+              where: { booking: { status: { not: 'CANCELLED' } } },
+            },
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return {
+      promoCodes,
+      pagination,
+    };
+  }
+
+  async getPromoCodeById(promoCodeId: string, userRole: UserRole, userId: string) {
+    await this.getManageablePromoCode(promoCodeId, userRole, userId);
+
+    return await prisma.promoCode.findUniqueOrThrow({
+      where: { id: promoCodeId },
+      include: {
+        route: {
+          select: {
+            id: true,
+            origin: true,
+            destination: true,
+          },
+        },
+        operator: {
+          select: {
+            id: true,
+            companyName: true,
+          },
+        },
+        redemptions: {
+          select: {
+            id: true,
+            userId: true,
+            bookingId: true,
+            discountAmount: true,
+            createdAt: true,
+            booking: {
+              select: {
+                bookingReference: true,
+                status: true,
+              },
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 50,
+        },
+      },
+    });
+  }
+
+  /**
+   * Quote a promo code for a prospective booking without redeeming it
+   */
+  async validatePromoCode(data: ValidatePromoCodeRequest, userId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: data.tripId },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    const { promoCode, discountAmount } = await this.applyPromoCode(prisma, data.code, userId, trip, data.seatCount);
+
+    return {
+      code: promoCode.code,
+      description: promoCode.description,
+      discountType: promoCode.discountType,
+      discountValue: promoCode.discountValue,
+      fare: calculateFare(trip.price, data.seatCount, discountAmount),
+    };
+  }
+
+  /**
+   * Check a code against a booking in progress and work out its discount.
+   * Call inside the booking's SERIALIZABLE transaction so usage limits hold
+   * under concurrent checkouts.
+   */
+  async applyPromoCode(
+    client: Prisma.TransactionClient,
+    code: string,
+    userId: string,
+    trip: PromoTrip,
+    seatCount: number
+  ) {
+    const promoCode = await client.promoCode.findUnique({
+      where: { code: code.toUpperCase() },
+    });
+
+    if (!promoCode || !promoCode.isActive) {
+      throw new BadRequestError('Promo code is not valid');
+    }
+
+    const now = new Date();
+    if (now < promoCode.validFrom || now > promoCode.validUntil) {
+      throw new BadRequestError('Promo code is not valid at this time');
+    }
+
+    if (seatCount < promoCode.minSeats) {
+      throw new BadRequestError(`Promo code requires at least ${promoCode.minSeats} seats`);
+    }
+
+    await this.assertAppliesToTrip(client, promoCode, trip);
+
+    // Redemptions by bookings that were cancelled or expired are given back
+    const activeRedemptions: Prisma.PromoRedemptionWhereInput = {
+      promoCodeId: promoCode.id,
+      booking: { status: { not: 'CANCELLED' } },
+    };
+
+    if (promoCode.usageLimit !== null) {
+      const used = await client.promoRedemption.count({ where: activeRedemptions });
+
+      if (used >= promoCode.usageLimit) {
+        throw new BadRequestError('Promo code has been fully redeemed');
+      }
+    }
+
+    if (promoCode.perUserLimit !== null) {
+      const usedByUser = await client.promoRedemption.count({
+        where: { ...activeRedemptions, userId },
+      });
+
+      if (usedByUser >= promoCode.perUserLimit) {
+        throw new BadRequestError('You have already used this promo code');
+      }
+    }
+
+    return {
+      promoCode,
+      discountAmount: this.calculateDiscount(promoCode, trip.price * seatCount),
+    };
+  }
+
+  async recordRedemption(
+    tx: Prisma.TransactionClient,
+    promoCodeId: string,
+    userId: string,
+    bookingId: string,
+    discountAmount: number
+  ) {
+    return await tx.promoRedemption.create({
+      data: {
+        promoCodeId,
+        userId,
+        bookingId,
+        discountAmount,
+      },
+    });
+  }
+
+  /**
+   * Check that the promo code a booking was sold with still covers the trip it
+   * is moving to. Bookings without a promo code pass.
+   */
+  async assertRedemptionAppliesToTrip(client: Prisma.TransactionClient, bookingId: string, trip: PromoTrip) {
+    const redemption = await client.promoRedemption.findUnique({
+      where: { bookingId },
+      include: {
+        promoCode: true,
+      },
+    });
+
+    if (redemption) {
+      await this.assertAppliesToTrip(client, redemption.promoCode, trip);
+    }
+  }
+
+  private async assertAppliesToTrip(client: Prisma.TransactionClient, promoCode: PromoCode, trip: PromoTrip) {
+    if (promoCode.routeId && promoCode.routeId !== trip.routeId) {
+      throw new BadRequestError('Promo code does not apply to this route');
+    }
+
+    if (promoCode.operatorId && promoCode.operatorId !== trip.operatorId) {
+      throw new BadRequestError('Promo code does not apply to this operator');
+    }
+
+    if (promoCode.busType) {
+      const bus = await client.bus.findUniqueOrThrow({
+        where: { id: trip.busId },
+        select: { busType: true },
+      });
+
+      if (bus.busType !== promoCode.busType) {
+        throw new BadRequestError('Promo code does not apply to this bus type');
+      }
+    }
+  }
+
+  private calculateDiscount(promoCode: PromoCode, subtotal: number): number {
+    const discount = promoCode.discountType === 'PERCENTAGE'
+      ? percentOf(subtotal, promoCode.discountValue)
+      : promoCode.discountValue;
+
+    const capped = promoCode.maxDiscount !== null ? Math.min(discount, promoCode.maxDiscount) : discount;
+
+    return Math.min(capped, subtotal);
+  }
+
+  private assertValidTerms(discountType: string, discountValue: number, validFrom: Date, validUntil: Date) {
+    if (discountType === 'PERCENTAGE' && discountValue > 100) {
+      throw new BadRequestError('Percentage discount cannot exceed 100');
+    }
+
+    if (validFrom >= validUntil) {
+      throw new BadRequestError('validFrom must be before validUntil');
+    }
+  }
+
+  private async getManageablePromoCode(promoCodeId: string, userRole: UserRole, userId: string) {
+    const promoCode = await prisma.promoCode.findUnique({
+      where: { id: promoCodeId },
+      include: {
+        operator: {
+          select: {
+            userId: true,
+          },
+        },
+      },
+    });
+
+    if (!promoCode) {
+      throw new NotFoundError('Promo code not found');
+    }
+
+    if (userRole !== 'ADMIN' && promoCode.operator?.userId !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    return promoCode;
+  }
+
+  private async getOperatorProfile(userId: string) {
+    const operator = await prisma.operatorProfile.findUnique({
+      where: { userId },
+    });
+
+    if (!operator) {
+      throw new NotFoundError('Operator profile not found');
+    }
+
+    return operator;
+  }
+}
+
+export const promoCodeService = new PromoCodeService();
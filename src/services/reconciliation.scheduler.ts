@@ -0,0 +1,53 @@
+import config from '@/config';
+import { reconciliationService } from '@/services/reconciliation.service';
+
+class ReconciliationScheduler {
+    private isRunning: boolean = false;
+    private intervalId: NodeJS.Timeout | null = null;
+
+    /**
+     * Start reconciling stuck PENDING payments with their gateways
+     */
+    public start(): void {
+        const intervalMs = config.reconciliation.intervalMs;
+
+        this.intervalId = setInterval(async () => {
+            if (this.isRunning) {
+                return;
+            }
+
+            this.isRunning = true;
+
+            try {
+                const run = await reconciliationService.reconcilePendingPayments();
+
+                if (run.checked > 0) {
+                    console.log(
+                        `[Reconciliation Scheduler] Checked ${run.checked} payments: ` +
+                        `${run.matched} matched, ${run.amountMismatch} amount mismatches, ` +
+                        `${run.notFound} unknown at gateway, ${run.stillPending} still pending, ${run.errors} errors`
+                    );
+                }
+            } catch (error) {
+                console.error('[Reconciliation Scheduler] Error reconciling payments:', error);
+            } finally {
+                this.isRunning = false;
+            }
+        }, intervalMs);
+
+        console.log(`[Reconciliation Scheduler] Scheduler started - will run every ${intervalMs / 1000} seconds`);
+    }
+
+    /**
+     * Stop the reconciliation scheduler
+     */
+    public stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        console.log('[Reconciliation Scheduler] Scheduler stopped');
+    }
+}
+
+export const reconciliationScheduler = new ReconciliationScheduler();
@@ -0,0 +1,166 @@
+import prisma from '@/config/database';
+import config from '@/config';
+import { NotFoundError } from '@/utils/errors';
+import { addMinutes } from '@/utils/auth';
+import { validatePagination, paginationHelper } from '@/utils/response';
+import { PaymentService } from '@/services/payment.service';
+import { paymentProviders } from '@/providers';
+import { ReconciliationOutcome } from '@prisma/client';
+
+const paymentService = new PaymentService();
+
+// Run counter incremented for each outcome
+const OUTCOME_COUNTERS: Record<ReconciliationOutcome, string> = {
+  MATCHED: 'matched',
+  AMOUNT_MISMATCH: 'amountMismatch',
+  NOT_FOUND: 'notFound',
+  FAILED: 'failed',
+  REFUNDED: 'refunded',
+  STILL_PENDING: 'stillPending',
+  ERROR: 'errors',
+};
+
+export class ReconciliationService {
+  /**
+   * Re-query the gateway for every payment left PENDING past the threshold and
+   * settle it the same way a customer verification would. Payments marked
+   * FAILED when their booking expired, without asking the gateway, are checked
+   * once as well.
+   */
+  async reconcilePendingPayments(trigger: string = 'scheduled') {
+    const cutoff = addMinutes(new Date(), -config.reconciliation.pendingAfterMinutes);
+
+    const payments = await prisma.payment.findMany({
+      where: {
+        createdAt: {
+          lte: cutoff,
+        },
+        // Cash is settled at the counter and has no gateway to ask
+        method: {
+          in: paymentProviders.methods(),
+        },
+        OR: [
+          { status: 'PENDING' },
+          {
+            status: 'FAILED',
+            booking: {
+              status: 'CANCELLED',
+            },
+            reconciliationItems: {
+              none: {},
+            },
+          },
+        ],
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+      take: config.reconciliation.batchSize,
+    });
+
+    const run = await prisma.reconciliationRun.create({
+      data: {
+        trigger,
+        checked: payments.length,
+      },
+    });
+
+    const counts: Record<string, number> = {};
+
+    for (const payment of payments) {
+      let outcome: ReconciliationOutcome;
+      let gatewayAmount: number | undefined;
+      let gatewayStatus: string | undefined;
+      let message: string | undefined;
+
+      try {
+        const result = await paymentService.reconcilePayment(payment);
+        outcome = result.outcome;
+        gatewayAmount = result.verification.amount;
+        gatewayStatus = result.verification.status;
+        message = result.verification.message;
+      } catch (error) {
+        console.error(`[Reconciliation] Failed to reconcile payment ${payment.id}:`, error);
+        outcome = 'ERROR';
+        message = error instanceof Error ? error.message : String(error);
+      }
+
+      await prisma.reconciliationItem.create({
+        data: {
+          runId: run.id,
+          paymentId: payment.id,
+          outcome,
+          expectedAmount: payment.amount,
+          gatewayAmount,
+          gatewayStatus,
+          message,
+        },
+      });
+
+      const counter = OUTCOME_COUNTERS[outcome];
+      counts[counter] = (counts[counter] || 0) + 1;
+    }
+
+    return await prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        ...counts,
+        finishedAt: new Date(),
+      },
+    });
+  }
+
+  async getRuns(page?: string, limit?: string) {
+    const { page: pageNum, limit: limitNum } = validatePagination(page, limit);
+
+    const total = await prisma.reconciliationRun.count();
+    const { skip, take, pagination } = paginationHelper(pageNum, limitNum, total);
+
+    const runs = await prisma.reconciliationRun.findMany({
+      skip,
+      take,
+      orderBy: {
+        startedAt: 'desc',
+      },
+    });
+
+    return {
+      runs,
+      pagination,
+    };
+  }
+
+  async getRunById(runId: string, outcome?: string) {
+    const run = await prisma.reconciliationRun.findUnique({
+      where: { id: runId },
+      include: {
+        items: {
+          where: outcome ? { outcome: outcome as ReconciliationOutcome } : undefined,
+          include: {
+            payment: {
+              select: {
+                id: true,
+                paymentReference: true,
+                method: true,
+                status: true,
+                bookingId: true,
+                createdAt: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!run) {
+      throw new NotFoundError('Reconciliation run not found');
+    }
+
+    return run;
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
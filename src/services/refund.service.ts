@@ -0,0 +1,607 @@
+import prisma from '@/config/database';
+import { NotFoundError, BadRequestError, ForbiddenError, ConflictError } from '@/utils/errors';
+import { CancellationPolicyTier, RefundQuote } from '@/types';
+import { validatePagination, paginationHelper } from '@/utils/response';
+import { percentOf } from '@/utils/money';
+import { paymentProviders } from '@/providers';
+import { ledgerService } from '@/services/ledger.service';
+import { invoiceService } from '@/services/invoice.service';
+import { walletService } from '@/services/wallet.service';
+import { bookingBalanceService } from '@/services/bookingBalance.service';
+import { Payment, Prisma, RefundDestination, RefundStatus, UserRole } from '@prisma/client';
+
+/**
+ * Applied to operators that have not configured their own policy
+ */
+export const DEFAULT_CANCELLATION_TIERS: CancellationPolicyTier[] = [
+  { hoursBeforeDeparture: 24, refundPercent: 100 },
+  { hoursBeforeDeparture: 2, refundPercent: 50 },
+  { hoursBeforeDeparture: 0, refundPercent: 0 },
+];
+
+// Everything back, nothing withheld
+export const fullRefund = (amount: number): RefundQuote => ({ refundPercent: 100, refundAmount: amount, cancellationFee: 0 });
+
+const refundInclude = {
+  payment: {
+    select: {
+      id: true,
+      paymentReference: true,
+      method: true,
+      amount: true,
+      status: true,
+    },
+  },
+  booking: {
+    select: {
+      id: true,
+      bookingReference: true,
+      userId: true,
+      trip: {
+        select: {
+          id: true,
+          departureTime: true,
+          operator: {
+            select: {
+              id: true,
+              companyName: true,
+              userId: true,
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.RefundInclude;
+
+export class RefundService {
+  async getCancellationPolicy(operatorId: string, client: Prisma.TransactionClient = prisma) {
+    const policy = await client.cancellationPolicy.findUnique({
+      where: { operatorId },
+    });
+
+    return {
+      operatorId,
+      isDefault: !policy,
+      tiers: policy ? (policy.tiers as unknown as CancellationPolicyTier[]) : DEFAULT_CANCELLATION_TIERS,
+    };
+  }
+
+  async getOperatorCancellationPolicy(userId: string) {
+    const operator = await this.getOperatorProfile(userId);
+    return await this.getCancellationPolicy(operator.id);
+  }
+
+  async updateCancellationPolicy(userId: string, tiers: CancellationPolicyTier[]) {
+    const operator = await this.getOperatorProfile(userId);
+
+    const sortedTiers = [...tiers].sort((a, b) => b.hoursBeforeDeparture - a.hoursBeforeDeparture);
+
+    const policy = await prisma.cancellationPolicy.upsert({
+      where: { operatorId: operator.id },
+      create: {
+        operatorId: operator.id,
+        tiers: sortedTiers as unknown as Prisma.InputJsonArray,
+      },
+      update: {
+        tiers: sortedTiers as unknown as Prisma.InputJsonArray,
+      },
+    });
+
+    return {
+      operatorId: policy.operatorId,
+      isDefault: false,
+      tiers: sortedTiers,
+    };
+  }
+
+  /**
+   * Refund owed for an amount cancelled at `now`: the tier with the longest notice
+   * the customer still meets applies; no tier means no refund
+   */
+  quoteRefund(tiers: CancellationPolicyTier[], departureTime: Date, amount: number, now: Date = new Date()): RefundQuote {
+    const hoursBeforeDeparture = (departureTime.getTime() - now.getTime()) / (60 * 60 * 1000);
+
+    const tier = [...tiers]
+      .sort((a, b) => b.hoursBeforeDeparture - a.hoursBeforeDeparture)
+      .find(t => hoursBeforeDeparture >= t.hoursBeforeDeparture);
+
+    const refundPercent = tier ? tier.refundPercent : 0;
+    const refundAmount = percentOf(amount, refundPercent);
+
+    return {
+      refundPercent,
+      refundAmount,
+      cancellationFee: amount - refundAmount,
+    };
+  }
+
+  /**
+   * Open refund requests for the completed payments of a booking being cancelled.
+   * Refunds to the wallet are store credit and complete straight away; wallet
+   * payments are always refunded to the wallet.
+   */
+  async requestRefundsForPayments(
+    tx: Prisma.TransactionClient,
+    bookingId: string,
+    payments: Payment[],
+    quote: (amount: number) => RefundQuote,
+    reason: string,
+    destination: RefundDestination,
+    requestedById?: string
+  ) {
+    const refunds = [];
+
+    for (const payment of payments) {
+      const { refundAmount, cancellationFee } = quote(payment.amount);
+
+      // Nothing is owed once the policy withholds the full amount
+      if (refundAmount <= 0) {
+        continue;
+      }
+
+      const refund = await tx.refund.create({
+        data: {
+          paymentId: payment.id,
+          bookingId,
+          amount: refundAmount,
+          cancellationFee,
+          reason,
+          destination: payment.method === 'WALLET' ? 'WALLET' : destination,
+          requestedById,
+        },
+      });
+
+      await ledgerService.postRefundRequested(tx, refund.id);
+
+      if (refund.destination === 'WALLET') {
+        refunds.push(await this.completeRefundInTransaction(
+          tx,
+          refund.id,
+          undefined,
+          { message: 'Credited to wallet' },
+          requestedById
+        ));
+      } else {
+        refunds.push(refund);
+      }
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Give back in full what was paid towards a booking that never got confirmed,
+   * e.g. a wallet part-payment on a booking that expired or was cancelled
+   */
+  async returnPaymentsToWallet(
+    tx: Prisma.TransactionClient,
+    bookingId: string,
+    payments: Payment[],
+    reason: string,
+    requestedById?: string
+  ) {
+    return await this.requestRefundsForPayments(
+      tx,
+      bookingId,
+      payments,
+      fullRefund,
+      reason,
+      'WALLET',
+      requestedById
+    );
+  }
+
+  /**
+   * A booking's payments, or its journey's, with `amount` cut down to what
+   * earlier refunds have not already returned or withheld as a cancellation fee,
+   * newest first. Payments with nothing left are left out.
+   */
+  async getRefundablePayments(tx: Prisma.TransactionClient, bookingId: string): Promise<Payment[]> {
+    // A journey is paid for in one go against any one of its legs
+    const { bookingIds } = await bookingBalanceService.getPaymentGroup(tx, bookingId);
+
+    const payments = await tx.payment.findMany({
+      where: {
+        bookingId: { in: bookingIds },
+        status: {
+          in: ['COMPLETED', 'PARTIALLY_REFUNDED'],
+        },
+      },
+      include: {
+        refunds: {
+          where: {
+            // A failed refund is still owed until it is paid out manually or rejected
+            status: {
+              in: ['REQUESTED', 'PROCESSING', 'FAILED', 'COMPLETED'],
+            },
+          },
+          select: {
+            amount: true,
+            cancellationFee: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return payments
+      .map(({ refunds, ...payment }) => ({
+        ...payment,
+        amount: payment.amount - refunds.reduce((sum, refund) => sum + refund.amount + refund.cancellationFee, 0),
+      }))
+      .filter(payment => payment.amount > 0);
+  }
+
+  /**
+   * Refund part of what was paid for a booking that stays live, e.g. the fare
+   * difference when it is changed to something cheaper or the share of seats
+   * cancelled from it. The amount is taken from the most recent payments first
+   * and `quote` applied to each payment's share.
+   */
+  async refundAcrossPayments(
+    tx: Prisma.TransactionClient,
+    bookingId: string,
+    amount: number,
+    quote: (amount: number) => RefundQuote,
+    reason: string,
+    destination: RefundDestination,
+    requestedById?: string
+  ) {
+    const shares: Payment[] = [];
+    let outstanding = amount;
+
+    for (const payment of await this.getRefundablePayments(tx, bookingId)) {
+      if (outstanding === 0) {
+        break;
+      }
+
+      const share = Math.min(payment.amount, outstanding);
+      shares.push({ ...payment, amount: share });
+      outstanding -= share;
+    }
+
+    if (outstanding > 0) {
+      throw new ConflictError('Refund exceeds what was paid for this booking');
+    }
+
+    return await this.requestRefundsForPayments(
+      tx,
+      bookingId,
+      shares,
+      quote,
+      reason,
+      destination,
+      requestedById
+    );
+  }
+
+  async getRefunds(
+    userRole: UserRole,
+    userId: string,
+    page?: string,
+    limit?: string,
+    status?: string
+  ) {
+    const { page: pageNum, limit: limitNum } = validatePagination(page, limit);
+
+    const where: Prisma.RefundWhereInput = {};
+
+    if (status) {
+      where.status = status as RefundStatus;
+    }
+
+    if (userRole === 'OPERATOR') {
+      where.booking = {
+        trip: {
+          operator: {
+            userId,
+          },
+        },
+      };
+    } else if (userRole === 'CUSTOMER') {
+      where.booking = {
+        userId,
+      };
+    }
+
+    const total = await prisma.refund.count({ where });
+    const { skip, take, pagination } = paginationHelper(pageNum, limitNum, total);
+
+    const refunds = await prisma.refund.findMany({
+      where,
+      skip,
+      take,
+      include: refundInclude,
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return {
+      refunds,
+      pagination,
+    };
+  }
+
+  async getRefundById(refundId: string, userRole: UserRole, userId: string) {
+    const refund = await prisma.refund.findUnique({
+      where: { id: refundId },
+      include: refundInclude,
+    });
+
+    if (!refund) {
+      throw new NotFoundError('Refund not found');
+    }
+
+    const canView =
+      userRole === 'ADMIN' ||
+      refund.booking.userId === userId ||
+      (userRole === 'OPERATOR' && refund.booking.trip.operator.userId === userId);
+
+    if (!canView) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    return refund;
+  }
+
+  /**
+   * Approve a requested refund and send it to the payment's provider. Methods
+   * without a provider (cash) and gateways without a refund API stay PROCESSING
+   * until someone records the payout with completeRefund.
+   */
+  async approveRefund(refundId: string, userRole: UserRole, userId: string) {
+    const refund = await this.getManageableRefund(refundId, userRole, userId);
+
+    if (refund.status !== 'REQUESTED') {
+      throw new BadRequestError(`Refund is already ${refund.status.toLowerCase()}`);
+    }
+
+    // Claim the refund first so a double approval cannot pay out twice
+    const claimed = await prisma.refund.updateMany({
+      where: {
+        id: refundId,
+        status: 'REQUESTED',
+      },
+      data: {
+        status: 'PROCESSING',
+        processedById: userId,
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Refund is already being processed');
+    }
+
+    if (refund.destination === 'WALLET') {
+      return await this.markRefundCompleted(refundId, undefined, { message: 'Credited to wallet' }, userId);
+    }
+
+    if (!paymentProviders.has(refund.payment.method)) {
+      return await prisma.refund.update({
+        where: { id: refundId },
+        data: {
+          gatewayResponse: {
+            message: `${refund.payment.method} refunds are paid out manually`,
+          },
+        },
+        include: refundInclude,
+      });
+    }
+
+    const provider = paymentProviders.get(refund.payment.method);
+
+    try {
+      const result = await provider.refund(refund.payment, refund.amount, refund.reason);
+
+      if (result.status === 'COMPLETED') {
+        return await this.markRefundCompleted(refundId, result.gatewayReference, result.gatewayResponse);
+      }
+
+      return await prisma.refund.update({
+        where: { id: refundId },
+        data: {
+          status: result.status === 'FAILED' ? 'FAILED' : 'PROCESSING',
+          gatewayReference: result.gatewayReference,
+          gatewayResponse: {
+            ...result.gatewayResponse,
+            message: result.message,
+          } as Prisma.InputJsonObject,
+          processedAt: result.status === 'FAILED' ? new Date() : undefined,
+        },
+        include: refundInclude,
+      });
+    } catch (error) {
+      console.error('Refund request failed:', error);
+
+      return await prisma.refund.update({
+        where: { id: refundId },
+        data: {
+          status: 'FAILED',
+          gatewayResponse: {
+            message: error instanceof Error ? error.message : 'Refund request failed',
+          },
+          processedAt: new Date(),
+        },
+        include: refundInclude,
+      });
+    }
+  }
+
+  /**
+   * Turn down a refund awaiting approval, or give up on one whose payout failed.
+   * The amount goes back to the operator's share.
+   */
+  async rejectRefund(refundId: string, reason: string, userRole: UserRole, userId: string) {
+    const refund = await this.getManageableRefund(refundId, userRole, userId);
+
+    if (refund.status !== 'REQUESTED' && refund.status !== 'FAILED') {
+      throw new BadRequestError(`Refund is already ${refund.status.toLowerCase()}`);
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      // Guard against a concurrent approval or rejection of the same refund
+      const rejected = await tx.refund.updateMany({
+        where: {
+          id: refundId,
+          status: {
+            in: ['REQUESTED', 'FAILED'],
+          },
+        },
+        data: {
+          status: 'REJECTED',
+          processedById: userId,
+          processedAt: new Date(),
+          gatewayResponse: {
+            message: reason,
+          },
+        },
+      });
+
+      if (rejected.count === 0) {
+        throw new ConflictError('Refund is already being processed');
+      }
+
+      await ledgerService.postRefundRejected(tx, refundId);
+
+      return await tx.refund.findUniqueOrThrow({
+        where: { id: refundId },
+        include: refundInclude,
+      });
+    });
+  }
+
+  /**
+   * Record a manual payout (cash handed back, refund issued from a merchant portal)
+   * for a refund that is PROCESSING, or retry bookkeeping for a FAILED one
+   */
+  async completeRefund(refundId: string, gatewayReference: string | undefined, userRole: UserRole, userId: string) {
+    const refund = await this.getManageableRefund(refundId, userRole, userId);
+
+    if (refund.status !== 'PROCESSING' && refund.status !== 'FAILED') {
+      throw new BadRequestError(`Cannot complete a ${refund.status.toLowerCase()} refund`);
+    }
+
+    return await this.markRefundCompleted(
+      refundId,
+      gatewayReference,
+      { message: 'Refund paid out manually' },
+      userId
+    );
+  }
+
+  private async markRefundCompleted(
+    refundId: string,
+    gatewayReference: string | undefined,
+    gatewayResponse: Record<string, unknown>,
+    processedById?: string
+  ) {
+    return await prisma.$transaction(async (tx) => {
+      return await this.completeRefundInTransaction(tx, refundId, gatewayReference, gatewayResponse, processedById);
+    });
+  }
+
+  private async completeRefundInTransaction(
+    tx: Prisma.TransactionClient,
+    refundId: string,
+    gatewayReference: string | undefined,
+    gatewayResponse: Record<string, unknown>,
+    processedById?: string
+  ) {
+    const refund = await tx.refund.update({
+      where: { id: refundId },
+      data: {
+        status: 'COMPLETED',
+        gatewayReference,
+        gatewayResponse: gatewayResponse as Prisma.InputJsonObject,
+        processedAt: new Date(),
+        ...(processedById && { processedById }),
+      },
+      include: refundInclude,
+    });
+
+    const refunded = await tx.refund.aggregate({
+      where: {
+        paymentId: refund.paymentId,
+        status: 'COMPLETED',
+      },
+      _sum: {
+        amount: true,
+      },
+    });
+
+    await tx.payment.update({
+      where: { id: refund.paymentId },
+      data: {
+        status: (refunded._sum.amount || 0) >= refund.payment.amount ? 'REFUNDED' : 'PARTIALLY_REFUNDED',
+      },
+    });
+
+    if (refund.destination === 'WALLET') {
+      await walletService.credit(tx, refund.booking.userId, refund.amount, {
+        type: 'REFUND',
+        description: `Refund for booking ${refund.booking.bookingReference}`,
+        paymentId: refund.paymentId,
+        refundId: refund.id,
+      });
+    }
+
+    await ledgerService.postRefundCompleted(tx, refundId);
+    await invoiceService.issueCreditNote(tx, refundId);
+
+    return refund;
+  }
+
+  private async getOperatorProfile(userId: string) {
+    const operator = await prisma.operatorProfile.findUnique({
+      where: { userId },
+    });
+
+    if (!operator) {
+      throw new NotFoundError('Operator profile not found');
+    }
+
+    return operator;
+  }
+
+  private async getManageableRefund(refundId: string, userRole: UserRole, userId: string) {
+    const refund = await prisma.refund.findUnique({
+      where: { id: refundId },
+      include: {
+        payment: true,
+        booking: {
+          select: {
+            trip: {
+              select: {
+                operator: {
+                  select: {
+                    userId: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!refund) {
+      throw new NotFoundError('Refund not found');
+    }
+
+    const canManage =
+      userRole === 'ADMIN' ||
+      (userRole === 'OPERATOR' && refund.booking.trip.operator.userId === userId);
+
+    if (!canManage) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    return refund;
+  }
+}
+
+export const refundService = new RefundService();
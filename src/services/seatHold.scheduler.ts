@@ -0,0 +1,49 @@
+import config from '@/config';
+import { seatHoldService } from '@/services/seatHold.service';
+
+class SeatHoldScheduler {
+    private isRunning: boolean = false;
+    private intervalId: NodeJS.Timeout | null = null;
+
+    /**
+     * Start sweeping expired seat holds
+     */
+    public start(): void {
+        const intervalMs = config.seatHold.sweepIntervalMs;
+
+        this.intervalId = setInterval(async () => {
+            if (this.isRunning) {
+                return;
+            }
+
+            this.isRunning = true;
+
+            try {
+                const result = await seatHoldService.releaseExpiredHolds();
+
+                if (result.releasedHolds > 0) {
+                    console.log(`[Seat Hold Scheduler] Released ${result.releasedHolds} expired seat holds`);
+                }
+            } catch (error) {
+                console.error('[Seat Hold Scheduler] Error releasing expired seat holds:', error);
+            } finally {
+                this.isRunning = false;
+            }
+        }, intervalMs);
+
+        console.log(`[Seat Hold Scheduler] Scheduler started - will run every ${intervalMs / 1000} seconds`);
+    }
+
+    /**
+     * Stop the seat hold scheduler
+     */
+    public stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        console.log('[Seat Hold Scheduler] Scheduler stopped');
+    }
+}
+
+export const seatHoldScheduler = new SeatHoldScheduler();
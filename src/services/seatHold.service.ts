@@ -0,0 +1,283 @@
+import prisma from '@/config/database';
+import config from '@/config';
+import { NotFoundError, ConflictError, BadRequestError, SeatConflictError } from '@/utils/errors';
+import { addMinutes } from '@/utils/auth';
+import { isUniqueViolation } from '@/utils/transaction';
+import { Prisma } from '@prisma/client';
+
+export class SeatHoldService {
+  /**
+   * Place a short-lived hold on seats while the customer fills in passenger details.
+   * Holding replaces any previous selection the customer had on the same trip.
+   */
+  async holdSeats(tripId: string, seatNumbers: string[], userId: string) {
+    if (seatNumbers.length > config.seatHold.maxSeats) {
+      throw new BadRequestError(`Cannot hold more than ${config.seatHold.maxSeats} seats at a time`);
+    }
+
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: {
+        bookings: {
+          where: {
+            status: {
+              in: ['CONFIRMED', 'PENDING'],
+            },
+          },
+          select: {
+            seatNumbers: true,
+          },
+        },
+      },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    if (trip.status !== 'SCHEDULED') {
+      throw new BadRequestError('Trip is not available for booking');
+    }
+
+    if (trip.departureTime <= new Date()) {
+      throw new BadRequestError('Cannot hold seats on past trips');
+    }
+
+    const bookedSeats = trip.bookings.reduce((acc, booking) => {
+      return acc.concat(booking.seatNumbers);
+    }, [] as string[]);
+
+    const unavailableSeats = seatNumbers.filter(seat => bookedSeats.includes(seat));
+    if (unavailableSeats.length > 0) {
+      throw new ConflictError(`Seats ${unavailableSeats.join(', ')} are already booked`);
+    }
+
+    const heldByOthers = await this.getHeldSeatNumbers(tripId, userId);
+    const contestedSeats = seatNumbers.filter(seat => heldByOthers.includes(seat));
+    if (contestedSeats.length > 0) {
+      throw new ConflictError(`Seats ${contestedSeats.join(', ')} are currently held by another customer`);
+    }
+
+    const now = new Date();
+    const expiresAt = addMinutes(now, config.seatHold.ttlMinutes);
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        // Drop seats the customer no longer wants
+        await tx.seatReservation.deleteMany({
+          where: {
+            tripId,
+            userId,
+            bookingId: null,
+            seatNumber: {
+              notIn: seatNumbers,
+            },
+          },
+        });
+
+        for (const seatNumber of seatNumbers) {
+          // Take over the row if it is free, expired or already ours
+          const updated = await tx.seatReservation.updateMany({
+            where: {
+              tripId,
+              seatNumber,
+              bookingId: null,
+              OR: [
+                { userId },
+                { isReserved: false },
+                { expiresAt: { lte: now } },
+              ],
+            },
+            data: {
+              userId,
+              isReserved: true,
+              reservedAt: now,
+              expiresAt,
+            },
+          });
+
+          if (updated.count === 0) {
+            // The (tripId, seatNumber) unique constraint rejects a concurrent hold on the same seat
+            await tx.seatReservation.create({
+              data: {
+                tripId,
+                seatNumber,
+                userId,
+                isReserved: true,
+                reservedAt: now,
+                expiresAt,
+              },
+            });
+          }
+        }
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new SeatConflictError(seatNumbers);
+      }
+      throw error;
+    }
+
+    return {
+      tripId,
+      seatNumbers,
+      expiresAt,
+    };
+  }
+
+  async releaseSeats(tripId: string, userId: string, seatNumbers?: string[]) {
+    const where: Prisma.SeatReservationWhereInput = {
+      tripId,
+      userId,
+      bookingId: null,
+    };
+
+    if (seatNumbers && seatNumbers.length > 0) {
+      where.seatNumber = {
+        in: seatNumbers,
+      };
+    }
+
+    const result = await prisma.seatReservation.deleteMany({ where });
+
+    return {
+      releasedSeats: result.count,
+    };
+  }
+
+  /**
+   * Seat numbers under an active hold, optionally ignoring holds owned by one
+   * customer, and seats set aside for a booking change awaiting payment
+   */
+  async getHeldSeatNumbers(
+    tripId: string,
+    excludeUserId?: string,
+    client: Prisma.TransactionClient = prisma
+  ) {
+    const holds = await client.seatReservation.findMany({
+      where: {
+        tripId,
+        OR: [
+          {
+            bookingId: null,
+            isReserved: true,
+            expiresAt: {
+              gt: new Date(),
+            },
+            ...(excludeUserId && {
+              OR: [
+                { userId: null },
+                { userId: { not: excludeUserId } },
+              ],
+            }),
+          },
+          {
+            booking: {
+              modifications: {
+                some: {
+                  toTripId: tripId,
+                  status: 'AWAITING_PAYMENT',
+                },
+              },
+            },
+          },
+        ],
+      },
+      select: {
+        seatNumber: true,
+      },
+    });
+
+    return holds.map(hold => hold.seatNumber);
+  }
+
+  /**
+   * Claim one seat reservation row per seat for a booking. Rows held by the same
+   * customer are converted; the (tripId, seatNumber) unique constraint rejects a
+   * seat that another booking claimed first.
+   */
+  async claimSeatsForBooking(
+    tx: Prisma.TransactionClient,
+    tripId: string,
+    seatNumbers: string[],
+    userId: string,
+    bookingId: string
+  ) {
+    const now = new Date();
+
+    for (const seatNumber of seatNumbers) {
+      const updated = await tx.seatReservation.updateMany({
+        where: {
+          tripId,
+          seatNumber,
+          bookingId: null,
+          OR: [
+            { userId },
+            { isReserved: false },
+            { expiresAt: { lte: now } },
+          ],
+        },
+        data: {
+          bookingId,
+          userId,
+          isReserved: false,
+          reservedAt: now,
+          expiresAt: null,
+        },
+      });
+
+      if (updated.count > 0) {
+        continue;
+      }
+
+      try {
+        await tx.seatReservation.create({
+          data: {
+            tripId,
+            seatNumber,
+            bookingId,
+            userId,
+            reservedAt: now,
+          },
+        });
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          throw new SeatConflictError([seatNumber]);
+        }
+        throw error;
+      }
+    }
+  }
+
+  async releaseBookingSeats(
+    bookingId: string,
+    client: Prisma.TransactionClient = prisma,
+    seatNumbers?: string[],
+    tripId?: string
+  ) {
+    await client.seatReservation.deleteMany({
+      where: {
+        bookingId,
+        ...(seatNumbers && { seatNumber: { in: seatNumbers } }),
+        ...(tripId && { tripId }),
+      },
+    });
+  }
+
+  async releaseExpiredHolds() {
+    const result = await prisma.seatReservation.deleteMany({
+      where: {
+        bookingId: null,
+        expiresAt: {
+          lte: new Date(),
+        },
+      },
+    });
+
+    return {
+      releasedHolds: result.count,
+    };
+  }
+}
+
+export const seatHoldService = new SeatHoldService();
@@ -0,0 +1,432 @@
+import prisma from '@/config/database';
+import config from '@/config';
+import { NotFoundError, BadRequestError, ForbiddenError, ConflictError } from '@/utils/errors';
+import { validatePagination, paginationHelper } from '@/utils/response';
+import { runSerializable } from '@/utils/transaction';
+import { percentOf, splitAmount } from '@/utils/money';
+import { ledgerService } from '@/services/ledger.service';
+import { Prisma, SettlementStatus, UserRole } from '@prisma/client';
+
+interface SettlementTotals {
+  grossAmount: number;
+  refundAmount: number;
+  commissionRate: number;
+  commissionAmount: number;
+  cashCollected: number;
+  netPayable: number;
+  paymentCount: number;
+  refundCount: number;
+}
+
+// What a booking's total is made of, to split payments and refunds on it
+interface FareShares {
+  serviceFee: number;
+  vatAmount: number;
+  totalAmount: number;
+}
+
+const fareShares = {
+  serviceFee: true,
+  vatAmount: true,
+  totalAmount: true,
+} satisfies Prisma.BookingSelect;
+
+export class SettlementService {
+  async setCommissionRate(operatorId: string, commissionRate: number | null) {
+    const operator = await prisma.operatorProfile.findUnique({
+      where: { id: operatorId },
+    });
+
+    if (!operator) {
+      throw new NotFoundError('Operator not found');
+    }
+
+    const updated = await prisma.operatorProfile.update({
+      where: { id: operatorId },
+      data: { commissionRate },
+      select: {
+        id: true,
+        companyName: true,
+        commissionRate: true,
+      },
+    });
+
+    return {
+      ...updated,
+      effectiveCommissionRate: updated.commissionRate ?? config.settlement.defaultCommissionRate,
+    };
+  }
+
+  /**
+   * Close a settlement for each operator with unsettled payments or refunds
+   * before `periodEnd`. Items already in a settlement are never counted twice.
+   */
+  async generateSettlements(periodEnd: Date, periodStart?: Date, operatorId?: string) {
+    if (periodEnd > new Date()) {
+      throw new BadRequestError('Settlement period cannot end in the future');
+    }
+
+    if (periodStart && periodStart >= periodEnd) {
+      throw new BadRequestError('Settlement period start must be before its end');
+    }
+
+    const operators = await prisma.operatorProfile.findMany({
+      where: operatorId ? { id: operatorId } : undefined,
+      select: {
+        id: true,
+        commissionRate: true,
+      },
+    });
+
+    if (operatorId && operators.length === 0) {
+      throw new NotFoundError('Operator not found');
+    }
+
+    const settlements = [];
+
+    for (const operator of operators) {
+      const settlement = await runSerializable(async (tx) => {
+        const { payments, refunds } = await this.findUnsettled(tx, operator.id, periodEnd);
+
+        if (payments.length === 0 && refunds.length === 0) {
+          return null;
+        }
+
+        const totals = this.summarize(payments, refunds, this.commissionRateFor(operator));
+
+        const lastSettlement = await tx.settlement.findFirst({
+          where: { operatorId: operator.id },
+          orderBy: { periodEnd: 'desc' },
+          select: { periodEnd: true },
+        });
+
+        const created = await tx.settlement.create({
+          data: {
+            operatorId: operator.id,
+            periodStart: periodStart || lastSettlement?.periodEnd || this.earliest(payments, refunds),
+            periodEnd,
+            ...totals,
+          },
+        });
+
+        // Claim the items; a concurrent settlement run makes the counts disagree
+        const claimedPayments = await tx.payment.updateMany({
+          where: {
+            id: { in: payments.map(payment => payment.id) },
+            settlementId: null,
+          },
+          data: { settlementId: created.id },
+        });
+
+        const claimedRefunds = await tx.refund.updateMany({
+          where: {
+            id: { in: refunds.map(refund => refund.id) },
+            settlementId: null,
+          },
+          data: { settlementId: created.id },
+        });
+
+        if (claimedPayments.count !== payments.length || claimedRefunds.count !== refunds.length) {
+          throw new ConflictError('Another settlement run claimed some of these payments');
+        }
+
+        await ledgerService.postSettlementCreated(tx, created.id);
+
+        return created;
+      });
+
+      if (settlement) {
+        settlements.push(settlement);
+      }
+    }
+
+    return settlements;
+  }
+
+  /**
+   * What the operator is owed: settlements awaiting payout plus activity that
+   * has not been settled yet
+   */
+  async getOperatorBalance(userId: string) {
+    const operator = await prisma.operatorProfile.findUnique({
+      where: { userId },
+      select: {
+        id: true,
+        companyName: true,
+        commissionRate: true,
+      },
+    });
+
+    if (!operator) {
+      throw new NotFoundError('Operator profile not found');
+    }
+
+    const pending = await prisma.settlement.aggregate({
+      where: {
+        operatorId: operator.id,
+        status: 'PENDING',
+      },
+      _sum: {
+        netPayable: true,
+      },
+      _count: {
+        id: true,
+      },
+    });
+
+    const { payments, refunds } = await this.findUnsettled(prisma, operator.id, new Date());
+    const unsettled = this.summarize(payments, refunds, this.commissionRateFor(operator));
+    const pendingPayout = pending._sum.netPayable || 0;
+
+    return {
+      operatorId: operator.id,
+      companyName: operator.companyName,
+      commissionRate: this.commissionRateFor(operator),
+      pendingSettlements: {
+        count: pending._count.id,
+        netPayable: pendingPayout,
+      },
+      unsettled,
+      payableBalance: pendingPayout + unsettled.netPayable,
+    };
+  }
+
+  async getSettlements(
+    userRole: UserRole,
+    userId: string,
+    page?: string,
+    limit?: string,
+    status?: string,
+    operatorId?: string
+  ) {
+    const { page: pageNum, limit: limitNum } = validatePagination(page, limit);
+
+    const where: Prisma.SettlementWhereInput = {};
+
+    if (status) {
+      where.status = status as SettlementStatus;
+    }
+
+    if (userRole === 'OPERATOR') {
+      where.operator = { userId };
+    } else if (userRole === 'ADMIN') {
+      if (operatorId) {
+        where.operatorId = operatorId;
+      }
+    } else {
+      throw new ForbiddenError('Access denied');
+    }
+
+    const total = await prisma.settlement.count({ where });
+    const { skip, take, pagination } = paginationHelper(pageNum, limitNum, total);
+
+    const settlements = await prisma.settlement.findMany({
+      where,
+      skip,
+      take,
+      include: {
+        operator: {
+          select: {
+            id: true,
+            companyName: true,
+          },
+        },
+      },
+      orderBy: {
+        periodEnd: 'desc',
+      },
+    });
+
+    return {
+      settlements,
+      pagination,
+    };
+  }
+
+  async getSettlementById(settlementId: string, userRole: UserRole, userId: string) {
+    const settlement = await prisma.settlement.findUnique({
+      where: { id: settlementId },
+      include: {
+        operator: {
+          select: {
+            id: true,
+            userId: true,
+            companyName: true,
+          },
+        },
+        payments: {
+          select: {
+            id: true,
+            paymentReference: true,
+            method: true,
+            amount: true,
+            status: true,
+            createdAt: true,
+            bookingId: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+        refunds: {
+          select: {
+            id: true,
+            paymentId: true,
+            amount: true,
+            processedAt: true,
+          },
+          orderBy: { processedAt: 'asc' },
+        },
+      },
+    });
+
+    if (!settlement) {
+      throw new NotFoundError('Settlement not found');
+    }
+
+    if (userRole !== 'ADMIN' && settlement.operator.userId !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    return settlement;
+  }
+
+  async markSettlementPaid(settlementId: string, payoutReference: string) {
+    return await prisma.$transaction(async (tx) => {
+      const updated = await tx.settlement.updateMany({
+        where: {
+          id: settlementId,
+          status: 'PENDING',
+        },
+        data: {
+          status: 'PAID',
+          payoutReference,
+          paidAt: new Date(),
+        },
+      });
+
+      if (updated.count === 0) {
+        const exists = await tx.settlement.findUnique({ where: { id: settlementId } });
+
+        if (!exists) {
+          throw new NotFoundError('Settlement not found');
+        }
+        throw new BadRequestError('Settlement is already paid');
+      }
+
+      await ledgerService.postSettlementPaid(tx, settlementId);
+
+      return await tx.settlement.findUniqueOrThrow({
+        where: { id: settlementId },
+      });
+    });
+  }
+
+  private async findUnsettled(client: Prisma.TransactionClient, operatorId: string, before: Date) {
+    const payments = await client.payment.findMany({
+      where: {
+        settlementId: null,
+        status: {
+          in: ['COMPLETED', 'REFUNDED', 'PARTIALLY_REFUNDED'],
+        },
+        // A payment started before the cut-off but paid after it belongs to the next period
+        completedAt: {
+          lt: before,
+        },
+        booking: {
+          trip: { operatorId },
+        },
+      },
+      select: {
+        id: true,
+        amount: true,
+        method: true,
+        completedAt: true,
+        booking: {
+          select: fareShares,
+        },
+      },
+    });
+
+    const refunds = await client.refund.findMany({
+      where: {
+        settlementId: null,
+        status: 'COMPLETED',
+        processedAt: {
+          lt: before,
+        },
+        booking: {
+          trip: { operatorId },
+        },
+      },
+      select: {
+        id: true,
+        amount: true,
+        processedAt: true,
+        destination: true,
+        payment: {
+          select: {
+            method: true,
+          },
+        },
+        booking: {
+          select: fareShares,
+        },
+      },
+    });
+
+    return { payments, refunds };
+  }
+
+  /**
+   * Totals for a set of unsettled payments and refunds at the given commission rate
+   */
+  summarize(
+    payments: Array<{ amount: number; method: string; booking: FareShares }>,
+    refunds: Array<{ amount: number; destination: string; payment: { method: string }; booking: FareShares }>,
+    commissionRate: number
+  ): SettlementTotals {
+    // Only the fare is the operator's; the service fee and VAT never pass through them
+    const grossAmount = payments.reduce((sum, payment) => sum + splitAmount(payment.amount, payment.booking).fareAmount, 0);
+    const refundAmount = refunds.reduce((sum, refund) => sum + splitAmount(refund.amount, refund.booking).fareAmount, 0);
+    // Counter cash stays with the operator in full, and cash refunds were paid out of it;
+    // refunds of cash as wallet credit are owed by the platform instead
+    const cashCollected =
+      payments
+        .filter(payment => payment.method === 'CASH')
+        .reduce((sum, payment) => sum + payment.amount, 0) -
+      refunds
+        .filter(refund => refund.payment.method === 'CASH' && refund.destination === 'ORIGINAL_METHOD')
+        .reduce((sum, refund) => sum + refund.amount, 0);
+
+    // Commission is earned on what the customer finally paid, cancellation fees included
+    const commissionAmount = percentOf(grossAmount - refundAmount, commissionRate);
+
+    return {
+      grossAmount,
+      refundAmount,
+      commissionRate,
+      commissionAmount,
+      cashCollected,
+      netPayable: grossAmount - refundAmount - commissionAmount - cashCollected,
+      paymentCount: payments.length,
+      refundCount: refunds.length,
+    };
+  }
+
+  private commissionRateFor(operator: { commissionRate: number | null }) {
+    return operator.commissionRate ?? config.settlement.defaultCommissionRate;
+  }
+
+  private earliest(
+    payments: Array<{ completedAt: Date | null }>,
+    refunds: Array<{ processedAt: Date | null }>
+  ): Date {
+    const dates = [
+      ...payments.map(payment => (payment.completedAt as Date).getTime()),
+      ...refunds.map(refund => (refund.processedAt as Date).getTime()),
+    ];
+
+    return new Date(Math.min(...dates));
+  }
+}
+
+export const settlementService = new SettlementService();
@@ -0,0 +1,142 @@
+import prisma from '@/config/database';
+import QRCode from 'qrcode';
+import { NotFoundError, BadRequestError, ForbiddenError } from '@/utils/errors';
+import { ETicket, PassengerDetails } from '@/types';
+import { signTicket, getTicketPublicKey } from '@/utils/ticketSignature';
+import { renderTicketPdf } from '@/utils/ticketPdf';
+import { renderTicketHtml } from '@/utils/ticketHtml';
+import { UserRole } from '@prisma/client';
+
+export class TicketService {
+  /**
+   * The e-ticket for a confirmed booking. The QR code is signed afresh on each
+   * request; every signature stays valid as the payload only holds booking facts.
+   */
+  async getTicket(bookingId: string, userRole: UserRole, userId: string): Promise<ETicket> {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        trip: {
+          select: {
+            id: true,
+            departureTime: true,
+            arrivalTime: true,
+            bus: {
+              select: {
+                busNumber: true,
+                busType: true,
+              },
+            },
+            route: {
+              select: {
+                origin: true,
+                destination: true,
+              },
+            },
+            operator: {
+              select: {
+                companyName: true,
+                address: true,
+                userId: true,
+                user: {
+                  select: {
+                    phone: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!booking) {
+      throw new NotFoundError('Booking not found');
+    }
+
+    const canView =
+      userRole === 'ADMIN' ||
+      booking.userId === userId ||
+      (userRole === 'OPERATOR' && booking.trip.operator.userId === userId);
+
+    if (!canView) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    if (booking.status !== 'CONFIRMED') {
+      throw new BadRequestError('E-tickets are only available for confirmed bookings');
+    }
+
+    const { trip } = booking;
+    const passengers = [...(booking.passengerDetails as unknown as PassengerDetails[])]
+      .sort((a, b) => a.seatNumber.localeCompare(b.seatNumber, undefined, { numeric: true }));
+    const issuedAt = new Date();
+
+    const qrCode = signTicket({
+      v: 1,
+      ref: booking.bookingReference,
+      bid: booking.id,
+      tid: trip.id,
+      dep: trip.departureTime.toISOString(),
+      seats: passengers.map(passenger => passenger.seatNumber),
+      pax: passengers.map(passenger => passenger.name),
+      iat: Math.floor(issuedAt.getTime() / 1000),
+    });
+
+    return {
+      bookingId: booking.id,
+      bookingReference: booking.bookingReference,
+      passengers,
+      trip: {
+        id: trip.id,
+        origin: trip.route.origin,
+        destination: trip.route.destination,
+        departureTime: trip.departureTime,
+        arrivalTime: trip.arrivalTime,
+        busNumber: trip.bus.busNumber,
+        busType: trip.bus.busType,
+      },
+      operator: {
+        companyName: trip.operator.companyName,
+        address: trip.operator.address,
+        phone: trip.operator.user.phone,
+      },
+      totalAmount: booking.totalAmount,
+      issuedAt,
+      qrCode,
+    };
+  }
+
+  async getTicketWithQrImage(bookingId: string, userRole: UserRole, userId: string) {
+    const ticket = await this.getTicket(bookingId, userRole, userId);
+
+    return {
+      ...ticket,
+      qrImage: await QRCode.toDataURL(ticket.qrCode, { errorCorrectionLevel: 'M', margin: 1, width: 220 }),
+    };
+  }
+
+  async getTicketHtml(bookingId: string, userRole: UserRole, userId: string) {
+    const ticket = await this.getTicket(bookingId, userRole, userId);
+    return await renderTicketHtml(ticket);
+  }
+
+  async getTicketPdf(bookingId: string, userRole: UserRole, userId: string) {
+    const ticket = await this.getTicket(bookingId, userRole, userId);
+
+    return {
+      ticket,
+      pdf: await renderTicketPdf(ticket),
+    };
+  }
+
+  getPublicKey() {
+    return {
+      algorithm: 'Ed25519',
+      format: 'spki-pem',
+      publicKey: getTicketPublicKey(),
+    };
+  }
+}
+
+export const ticketService = new TicketService();
@@ -5,6 +5,11 @@ import { CreateTripRequest, TripFilters } from '@/types';
 import { UserRole } from '@prisma/client';
 import { contentBasedRecommendation } from '@/algorithms/contentBased';
 import { occupancySorting, OccupancyConfig } from '@/algorithms/occupancy';
+import { seatHoldService } from '@/services/seatHold.service';
+import { BookingService } from '@/services/booking.service';
+import { boardingService } from '@/services/boarding.service';
+
+const bookingService = new BookingService();
 
 export class TripService {
   async getAllTrips(
@@ -524,6 +529,17 @@ export class TripService {
       },
     });
 
+    // Whoever has not boarded by the time the trip sets off is a no-show
+    const departed = ['IN_PROGRESS', 'COMPLETED'];
+    if (departed.includes(updatedTrip.status) && !departed.includes(trip.status)) {
+      await boardingService.markNoShows(tripId);
+    }
+
+    // Riders on a finished trip earn their loyalty points
+    if (updatedTrip.status === 'COMPLETED' && trip.status !== 'COMPLETED') {
+      await bookingService.completeTripBookings(tripId);
+    }
+
     return updatedTrip;
   }
 
@@ -569,6 +585,14 @@ export class TripService {
     return { message: 'Trip deleted successfully' };
   }
 
+  async holdSeats(tripId: string, seatNumbers: string[], userId: string) {
+    return await seatHoldService.holdSeats(tripId, seatNumbers, userId);
+  }
+
+  async releaseSeats(tripId: string, userId: string, seatNumbers?: string[]) {
+    return await seatHoldService.releaseSeats(tripId, userId, seatNumbers);
+  }
+
   async getAvailableSeats(tripId: string) {
     const trip = await prisma.trip.findUnique({
       where: { id: tripId },
@@ -600,12 +624,16 @@ export class TripService {
       return acc.concat(booking.seatNumbers);
     }, [] as string[]);
 
+    const heldSeats = (await seatHoldService.getHeldSeatNumbers(tripId))
+      .filter(seat => !bookedSeats.includes(seat));
+
     const availableSeats = trip.availableSeats;
     const seatLayout = trip.bus.seatLayout;
 
     return {
       availableSeats,
       bookedSeats,
+      heldSeats,
       seatLayout,
     };
   }
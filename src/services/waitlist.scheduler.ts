@@ -0,0 +1,49 @@
+import config from '@/config';
+import { waitlistService } from '@/services/waitlist.service';
+
+class WaitlistScheduler {
+    private isRunning: boolean = false;
+    private intervalId: NodeJS.Timeout | null = null;
+
+    /**
+     * Start passing lapsed waitlist offers on to the next customer in line
+     */
+    public start(): void {
+        const intervalMs = config.waitlist.sweepIntervalMs;
+
+        this.intervalId = setInterval(async () => {
+            if (this.isRunning) {
+                return;
+            }
+
+            this.isRunning = true;
+
+            try {
+                const result = await waitlistService.processWaitlists();
+
+                if (result.expiredOffers > 0 || result.offersMade > 0) {
+                    console.log(`[Waitlist Scheduler] Expired ${result.expiredOffers} offers, made ${result.offersMade} new offers`);
+                }
+            } catch (error) {
+                console.error('[Waitlist Scheduler] Error processing waitlists:', error);
+            } finally {
+                this.isRunning = false;
+            }
+        }, intervalMs);
+
+        console.log(`[Waitlist Scheduler] Scheduler started - will run every ${intervalMs / 1000} seconds`);
+    }
+
+    /**
+     * Stop the waitlist scheduler
+     */
+    public stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        console.log('[Waitlist Scheduler] Scheduler stopped');
+    }
+}
+
+export const waitlistScheduler = new WaitlistScheduler();
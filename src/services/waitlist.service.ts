@@ -0,0 +1,421 @@
+import prisma from '@/config/database';
+import config from '@/config';
+import { NotFoundError, BadRequestError, ForbiddenError, ConflictError } from '@/utils/errors';
+import { addMinutes } from '@/utils/auth';
+import { sendMail } from '@/utils/mail';
+import { runSerializable } from '@/utils/transaction';
+import { Prisma, UserRole, WaitlistEntry, WaitlistStatus } from '@prisma/client';
+
+const ACTIVE_STATUSES: WaitlistStatus[] = ['WAITING', 'OFFERED'];
+
+export class WaitlistService {
+  /**
+   * Queue for seats on a trip that does not have `seatCount` seats left
+   */
+  async join(tripId: string, seatCount: number, userId: string) {
+    if (seatCount > config.seatHold.maxSeats) {
+      throw new BadRequestError(`Cannot wait for more than ${config.seatHold.maxSeats} seats`);
+    }
+
+    return await runSerializable(async (tx) => {
+      const trip = await tx.trip.findUnique({
+        where: { id: tripId },
+      });
+
+      if (!trip) {
+        throw new NotFoundError('Trip not found');
+      }
+
+      if (trip.status !== 'SCHEDULED' || trip.departureTime <= new Date()) {
+        throw new BadRequestError('Trip is not available for booking');
+      }
+
+      if (trip.availableSeats >= seatCount) {
+        throw new BadRequestError('Seats are available on this trip; book them directly');
+      }
+
+      const existing = await tx.waitlistEntry.findFirst({
+        where: {
+          tripId,
+          userId,
+          status: {
+            in: ACTIVE_STATUSES,
+          },
+        },
+      });
+
+      if (existing) {
+        throw new ConflictError('You are already on the waitlist for this trip');
+      }
+
+      const entry = await tx.waitlistEntry.create({
+        data: {
+          tripId,
+          userId,
+          seatCount,
+        },
+      });
+
+      return {
+        ...entry,
+        position: await this.positionOf(tx, entry),
+      };
+    });
+  }
+
+  /**
+   * The customer's place on a trip's waitlist, or their current offer
+   */
+  async getEntry(tripId: string, userId: string) {
+    const entry = await prisma.waitlistEntry.findFirst({
+      where: {
+        tripId,
+        userId,
+        status: {
+          in: ACTIVE_STATUSES,
+        },
+      },
+    });
+
+    if (!entry) {
+      throw new NotFoundError('You are not on the waitlist for this trip');
+    }
+
+    return {
+      ...entry,
+      position: await this.positionOf(prisma, entry),
+    };
+  }
+
+  /**
+   * Everyone waiting for or holding an offer on a trip, in queue order
+   */
+  async getQueue(tripId: string, userRole: UserRole, userId: string) {
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: {
+        operator: {
+          select: {
+            userId: true,
+          },
+        },
+      },
+    });
+
+    if (!trip) {
+      throw new NotFoundError('Trip not found');
+    }
+
+    if (userRole !== 'ADMIN' && trip.operator.userId !== userId) {
+      throw new ForbiddenError('Access denied');
+    }
+
+    const entries = await prisma.waitlistEntry.findMany({
+      where: {
+        tripId,
+        status: {
+          in: ACTIVE_STATUSES,
+        },
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    return {
+      tripId,
+      availableSeats: trip.availableSeats,
+      seatsWanted: entries.reduce((sum, entry) => sum + entry.seatCount, 0),
+      entries,
+    };
+  }
+
+  /**
+   * Leave a trip's waitlist. Seats held by an open offer pass to the next customer.
+   */
+  async leave(tripId: string, userId: string) {
+    const entry = await prisma.$transaction(async (tx) => {
+      const entry = await tx.waitlistEntry.findFirst({
+        where: {
+          tripId,
+          userId,
+          status: {
+            in: ACTIVE_STATUSES,
+          },
+        },
+      });
+
+      if (!entry) {
+        throw new NotFoundError('You are not on the waitlist for this trip');
+      }
+
+      if (!(await this.closeEntry(tx, entry, 'CANCELLED'))) {
+        throw new ConflictError('Waitlist entry changed; please try again');
+      }
+
+      return entry;
+    });
+
+    if (entry.status === 'OFFERED') {
+      await this.offerFreedSeats(tripId);
+    }
+
+    return { ...entry, status: 'CANCELLED' as const };
+  }
+
+  /**
+   * Take a customer off a trip's waitlist as they book it. Seats set aside by an
+   * offer go back on the trip first so that the booking can take them. Call
+   * inside the booking's transaction.
+   */
+  async claimForBooking(tx: Prisma.TransactionClient, tripId: string, userId: string) {
+    const entry = await tx.waitlistEntry.findFirst({
+      where: {
+        tripId,
+        userId,
+        status: {
+          in: ACTIVE_STATUSES,
+        },
+      },
+    });
+
+    if (!entry || !(await this.closeEntry(tx, entry, 'BOOKED'))) {
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Offer a trip's free seats to its waitlist in the order customers joined.
+   * Each offer takes its seats off availableSeats until the customer books or
+   * the offer lapses. Customers wanting more seats than are free keep their place.
+   */
+  async offerFreedSeats(tripId: string) {
+    const now = new Date();
+
+    const offers = await runSerializable(async (tx) => {
+      const trip = await tx.trip.findUnique({
+        where: { id: tripId },
+        include: {
+          route: {
+            select: {
+              origin: true,
+              destination: true,
+            },
+          },
+        },
+      });
+
+      if (!trip || trip.status !== 'SCHEDULED' || trip.departureTime <= now || trip.availableSeats <= 0) {
+        return [];
+      }
+
+      const waiting = await tx.waitlistEntry.findMany({
+        where: {
+          tripId,
+          status: 'WAITING',
+        },
+        include: {
+          user: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: 'asc',
+        },
+      });
+
+      const offerDeadline = addMinutes(now, config.waitlist.offerMinutes);
+      const offerExpiresAt = offerDeadline < trip.departureTime ? offerDeadline : trip.departureTime;
+
+      let freeSeats = trip.availableSeats;
+      const offered = [];
+
+      for (const entry of waiting) {
+        if (entry.seatCount > freeSeats) {
+          continue;
+        }
+
+        await tx.waitlistEntry.update({
+          where: { id: entry.id },
+          data: {
+            status: 'OFFERED',
+            offeredAt: now,
+            offerExpiresAt,
+          },
+        });
+
+        freeSeats -= entry.seatCount;
+        offered.push({ entry, trip, offerExpiresAt });
+      }
+
+      if (offered.length > 0) {
+        await tx.trip.update({
+          where: { id: tripId },
+          data: {
+            availableSeats: {
+              decrement: trip.availableSeats - freeSeats,
+            },
+          },
+        });
+      }
+
+      return offered;
+    });
+
+    for (const { entry, trip, offerExpiresAt } of offers) {
+      await sendMail(
+        entry.user.email,
+        'Seats available on your waitlisted trip',
+        `Hi ${entry.user.name}, ${entry.seatCount} seat(s) on ${trip.route.origin} - ${trip.route.destination}, ` +
+          `departing ${trip.departureTime.toISOString()}, are set aside for you until ${offerExpiresAt.toISOString()}. ` +
+          'Book them before then or they will be offered to the next customer on the waitlist.'
+      );
+    }
+
+    return offers.length;
+  }
+
+  /**
+   * Close lapsed offers and the waitlists of trips no longer on sale, then offer
+   * free seats on trips customers are still waiting for
+   */
+  async processWaitlists() {
+    const now = new Date();
+
+    const lapsedOffers = await prisma.waitlistEntry.findMany({
+      where: {
+        status: 'OFFERED',
+        offerExpiresAt: {
+          lte: now,
+        },
+      },
+      take: 100,
+    });
+
+    let expiredOffers = 0;
+
+    for (const entry of lapsedOffers) {
+      try {
+        // The customer may have booked meanwhile
+        if (await prisma.$transaction((tx) => this.closeEntry(tx, entry, 'EXPIRED'))) {
+          expiredOffers++;
+        }
+      } catch (error) {
+        console.error(`[Waitlist Service] Error expiring waitlist offer ${entry.id}:`, error);
+      }
+    }
+
+    const closed = await prisma.waitlistEntry.updateMany({
+      where: {
+        status: 'WAITING',
+        trip: {
+          OR: [
+            { status: { not: 'SCHEDULED' } },
+            { departureTime: { lte: now } },
+          ],
+        },
+      },
+      data: {
+        status: 'CANCELLED',
+      },
+    });
+
+    const tripsWithSeats = await prisma.waitlistEntry.findMany({
+      where: {
+        status: 'WAITING',
+        trip: {
+          availableSeats: { gt: 0 },
+        },
+      },
+      distinct: ['tripId'],
+      select: {
+        tripId: true,
+      },
+      take: 100,
+    });
+
+    let offersMade = 0;
+
+    for (const { tripId } of tripsWithSeats) {
+      try {
+        offersMade += await this.offerFreedSeats(tripId);
+      } catch (error) {
+        console.error(`[Waitlist Service] Error offering seats on trip ${tripId}:`, error);
+      }
+    }
+
+    return {
+      expiredOffers,
+      closedEntries: closed.count,
+      offersMade,
+    };
+  }
+
+  /**
+   * Move an active entry to `status`, returning an offer's seats to the trip.
+   * False when the entry changed since it was read.
+   */
+  private async closeEntry(tx: Prisma.TransactionClient, entry: WaitlistEntry, status: WaitlistStatus) {
+    const closed = await tx.waitlistEntry.updateMany({
+      where: {
+        id: entry.id,
+        status: entry.status,
+      },
+      data: {
+        status,
+      },
+    });
+
+    if (closed.count === 0) {
+      return false;
+    }
+
+    if (entry.status === 'OFFERED') {
+      await tx.trip.update({
+        where: { id: entry.tripId },
+        data: {
+          availableSeats: {
+            increment: entry.seatCount,
+          },
+        },
+      });
+    }
+
+    return true;
+  }
+
+  private async positionOf(client: Prisma.TransactionClient, entry: WaitlistEntry) {
+    if (entry.status !== 'WAITING') {
+      return null;
+    }
+
+    const ahead = await client.waitlistEntry.count({
+      where: {
+        tripId: entry.tripId,
+        status: 'WAITING',
+        createdAt: {
+          lt: entry.createdAt,
+        },
+      },
+    });
+
+    return ahead + 1;
+  }
+}
+
+export const waitlistService = new WaitlistService();
@@ -0,0 +1,225 @@
+import prisma from '@/config/database';
+import { NotFoundError, BadRequestError, ForbiddenError } from '@/utils/errors';
+import { WalletPaymentRequest } from '@/types';
+import { validatePagination, paginationHelper } from '@/utils/response';
+import { generatePaymentReference } from '@/utils/auth';
+import { runSerializable } from '@/utils/transaction';
+import { ledgerService } from '@/services/ledger.service';
+import { bookingBalanceService } from '@/services/bookingBalance.service';
+import { Prisma, WalletTransactionType } from '@prisma/client';
+
+
+interface WalletMovement {
+  type: WalletTransactionType;
+  description: string;
+  paymentId?: string;
+  refundId?: string;
+}
+
+export class WalletService {
+  async getWallet(userId: string) {
+    const wallet = await prisma.wallet.findUnique({
+      where: { userId },
+    });
+
+    // Customers get a wallet with their first credit
+    return {
+      balance: wallet ? wallet.balance : 0,
+      updatedAt: wallet ? wallet.updatedAt : null,
+    };
+  }
+
+  async getTransactions(userId: string, page?: string, limit?: string, type?: string) {
+    const { page: pageNum, limit: limitNum } = validatePagination(page, limit);
+
+    const where: Prisma.WalletTransactionWhereInput = {
+      wallet: {
+        userId,
+      },
+    };
+
+    if (type) {
+      where.type = type as WalletTransactionType;
+    }
+
+    const total = await prisma.walletTransaction.count({ where });
+    const { skip, take, pagination } = paginationHelper(pageNum, limitNum, total);
+
+    const transactions = await prisma.walletTransaction.findMany({
+      where,
+      skip,
+      take,
+      select: {
+        id: true,
+        type: true,
+        amount: true,
+        balanceAfter: true,
+        description: true,
+        paymentId: true,
+        refundId: true,
+        createdAt: true,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return {
+      transactions,
+      pagination,
+    };
+  }
+
+  /**
+   * Pay all or part of a PENDING booking, or of a booking change's fare
+   * difference, from the wallet. Whatever is left is paid through a gateway as
+   * usual; the booking confirms, or the change applies, once fully paid.
+   */
+  async payFromWallet(data: WalletPaymentRequest, userId: string) {
+    const { bookingId, amount } = data;
+
+    return await runSerializable(async (tx) => {
+      const booking = await tx.booking.findUnique({
+        where: { id: bookingId },
+        include: {
+          trip: {
+            select: {
+              departureTime: true,
+              status: true,
+            },
+          },
+        },
+      });
+
+      if (!booking) {
+        throw new NotFoundError('Booking not found');
+      }
+
+      if (booking.userId !== userId) {
+        throw new ForbiddenError('Access denied');
+      }
+
+      if (booking.status === 'CANCELLED') {
+        throw new BadRequestError('Cannot pay for cancelled booking');
+      }
+
+      const amountDue = await bookingBalanceService.getAmountDue(tx, booking.id);
+
+      if (amountDue <= 0) {
+        throw new BadRequestError('Booking is already paid');
+      }
+
+      const deadline = await bookingBalanceService.getPaymentDeadline(tx, booking.id);
+
+      if (deadline && deadline <= new Date()) {
+        throw new BadRequestError('Payment deadline for this booking has passed');
+      }
+
+      if (booking.trip.status !== 'SCHEDULED') {
+        throw new BadRequestError('Trip is no longer available');
+      }
+
+      if (booking.trip.departureTime <= new Date()) {
+        throw new BadRequestError('Cannot pay for past trips');
+      }
+
+      if (amount > amountDue) {
+        throw new BadRequestError('Payment amount exceeds the amount due');
+      }
+
+      const payment = await tx.payment.create({
+        data: {
+          bookingId,
+          userId,
+          amount,
+          method: 'WALLET',
+          status: 'COMPLETED',
+          paymentReference: generatePaymentReference(),
+          completedAt: new Date(),
+        },
+      });
+
+      const wallet = await this.debit(tx, userId, amount, {
+        type: 'PAYMENT',
+        description: `Payment for booking ${booking.bookingReference}`,
+        paymentId: payment.id,
+      });
+
+      await ledgerService.postPaymentCompleted(tx, payment.id);
+      const confirmed = await bookingBalanceService.confirmIfPaid(tx, bookingId, payment.id);
+
+      return {
+        payment,
+        bookingStatus: confirmed ? 'CONFIRMED' : booking.status,
+        amountDue: amountDue - amount,
+        walletBalance: wallet.balance,
+      };
+    });
+  }
+
+  async credit(tx: Prisma.TransactionClient, userId: string, amount: number, movement: WalletMovement) {
+    const wallet = await tx.wallet.upsert({
+      where: { userId },
+      create: {
+        userId,
+        balance: amount,
+      },
+      update: {
+        balance: {
+          increment: amount,
+        },
+      },
+    });
+
+    await this.record(tx, wallet, amount, movement);
+
+    return wallet;
+  }
+
+  async debit(tx: Prisma.TransactionClient, userId: string, amount: number, movement: WalletMovement) {
+    // The balance check and the decrement are one statement so the balance cannot go negative
+    const debited = await tx.wallet.updateMany({
+      where: {
+        userId,
+        balance: {
+          gte: amount,
+        },
+      },
+      data: {
+        balance: {
+          decrement: amount,
+        },
+      },
+    });
+
+    if (debited.count === 0) {
+      throw new BadRequestError('Insufficient wallet balance');
+    }
+
+    const wallet = await tx.wallet.findUniqueOrThrow({
+      where: { userId },
+    });
+
+    await this.record(tx, wallet, -amount, movement);
+
+    return wallet;
+  }
+
+  private async record(
+    tx: Prisma.TransactionClient,
+    wallet: { id: string; balance: number },
+    amount: number,
+    movement: WalletMovement
+  ) {
+    return await tx.walletTransaction.create({
+      data: {
+        walletId: wallet.id,
+        amount,
+        balanceAfter: wallet.balance,
+        ...movement,
+      },
+    });
+  }
+}
+
+export const walletService = new WalletService();
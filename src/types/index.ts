@@ -1,5 +1,5 @@
 import { Request } from 'express';
-import { UserRole } from '@prisma/client';
+import { JourneyType, RefundDestination, UserRole } from '@prisma/client';
 
 // Extend Express Request interface to include user info
 declare global {
@@ -10,6 +10,7 @@ declare global {
         email: string;
         role: UserRole;
       };
+      rawBody?: Buffer; // Unparsed body, kept for webhook signature checks
     }
   }
 }
@@ -84,14 +85,96 @@ export interface CreateBookingRequest {
     phone: string;
     seatNumber: string;
   }>;
+  promoCode?: string;
+  redeemPoints?: number;
+}
+
+export interface ModifyBookingRequest {
+  tripId?: string; // Another departure of the same route; omit to change seats only
+  seatNumbers: string[];
+  passengerDetails?: PassengerDetails[]; // Defaults to the current passengers in seat order
+  refundTo?: RefundDestination;
+}
+
+export interface CreateJourneyRequest {
+  type: JourneyType;
+  legs: Array<Pick<CreateBookingRequest, 'tripId' | 'seatNumbers' | 'passengerDetails'>>; // In travel order
+}
+
+export interface CancelJourneyRequest {
+  bookingIds?: string[]; // Legs to cancel; omit to cancel every leg not yet travelled
+  refundTo?: RefundDestination;
+}
+
+export interface CreatePromoCodeRequest {
+  code: string;
+  description?: string;
+  discountType: 'PERCENTAGE' | 'FLAT';
+  discountValue: number;
+  maxDiscount?: number;
+  validFrom: string;
+  validUntil: string;
+  usageLimit?: number;
+  perUserLimit?: number;
+  minSeats?: number;
+  routeId?: string;
+  operatorId?: string;
+  busType?: string;
+}
+
+export interface UpdatePromoCodeRequest {
+  description?: string;
+  discountValue?: number;
+  maxDiscount?: number | null;
+  validFrom?: string;
+  validUntil?: string;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  isActive?: boolean;
+}
+
+export interface ValidatePromoCodeRequest {
+  code: string;
+  tripId: string;
+  seatCount: number;
 }
 
 export interface PaymentRequest {
   bookingId: string;
-  method: 'ESEWA' | 'KHALTI';
+  method: 'ESEWA' | 'KHALTI' | 'MOCK';
+  amount: number;
+}
+
+export interface WalletPaymentRequest {
+  bookingId: string;
+  amount: number;
+}
+
+export interface CashPaymentRequest {
+  bookingId: string;
   amount: number;
 }
 
+export interface WalkInBookingRequest extends CreateBookingRequest {
+  amount: number;
+}
+
+export interface CashDrawerQuery {
+  date?: string;
+  collectorId?: string;
+}
+
+export interface CancellationPolicyTier {
+  hoursBeforeDeparture: number;
+  refundPercent: number;
+}
+
+export interface RefundQuote {
+  refundPercent: number;
+  refundAmount: number;
+  cancellationFee: number;
+}
+
 export interface TripFilters {
   origin?: string;
   destination?: string;
@@ -121,7 +204,12 @@ export interface BookingDetails {
   id: string;
   tripId: string;
   seatNumbers: string[];
+  baseFare: number;
+  discountAmount: number;
+  serviceFee: number;
+  vatAmount: number;
   totalAmount: number;
+  pointsRedeemed: number;
   status: string;
   bookingReference: string;
   passengerDetails: PassengerDetails[];
@@ -141,6 +229,35 @@ export interface BookingDetails {
   };
 }
 
+export interface BoardingScanRequest {
+  code?: string;             // Scanned ticket QR code
+  bookingReference?: string; // Typed in when the code cannot be scanned
+  seatNumbers?: string[];    // Defaults to every seat on the booking
+}
+
+export interface ETicket {
+  bookingId: string;
+  bookingReference: string;
+  passengers: PassengerDetails[]; // In seat order
+  trip: {
+    id: string;
+    origin: string;
+    destination: string;
+    departureTime: Date;
+    arrivalTime: Date;
+    busNumber: string;
+    busType: string;
+  };
+  operator: {
+    companyName: string;
+    address: string;
+    phone: string;
+  };
+  totalAmount: number;
+  issuedAt: Date;
+  qrCode: string; // Signed payload, see utils/ticketSignature
+}
+
 export interface PaymentGatewayResponse {
   transactionId: string;
   status: string;
@@ -38,12 +38,24 @@ export const generateBookingReference = (): string => {
   return `BKG-${timestamp}-${randomString}`;
 };
 
+export const generateJourneyReference = (): string => {
+  const timestamp = Date.now().toString(36);
+  const randomString = Math.random().toString(36).substring(2, 8).toUpperCase();
+  return `JRN-${timestamp}-${randomString}`;
+};
+
 export const generatePaymentReference = (): string => {
   const timestamp = Date.now().toString(36);
   const randomString = Math.random().toString(36).substring(2, 8).toUpperCase();
   return `PAY-${timestamp}-${randomString}`;
 };
 
+export const generateReceiptNumber = (): string => {
+  const timestamp = Date.now().toString(36);
+  const randomString = Math.random().toString(36).substring(2, 8).toUpperCase();
+  return `RCP-${timestamp}-${randomString}`.toUpperCase();
+};
+
 export const calculateTotalAmount = (seats: number, pricePerSeat: number): number => {
   return seats * pricePerSeat;
 };
@@ -0,0 +1,17 @@
+/**
+ * Quote a CSV field when needed. Fields that a spreadsheet would run as a
+ * formula get a leading apostrophe.
+ */
+const escapeCsvField = (value: string | number | null | undefined): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: Array<Array<string | number | null | undefined>>): string => {
+  return [headers, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+};
@@ -57,3 +57,18 @@ export class InternalServerError extends AppError {
     super(message, 500);
   }
 }
+
+export class SeatConflictError extends ConflictError {
+  public seats: string[];
+  public errors: any[];
+
+  constructor(seats: string[], message?: string) {
+    super(message || `Seats ${seats.join(', ')} are no longer available`);
+    this.seats = seats;
+    this.errors = seats.map((seat) => ({
+      field: 'seatNumbers',
+      seatNumber: seat,
+      message: `Seat ${seat} is no longer available`,
+    }));
+  }
+}
@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { BadRequestError } from '@/utils/errors';
+
+export const ESEWA_SIGNED_FIELD_NAMES = 'total_amount,transaction_uuid,product_code';
+
+export interface EsewaCallbackPayload {
+  transaction_code: string;
+  status: string;
+  total_amount: string | number; // Rupees, signed exactly as sent
+  transaction_uuid: string;
+  product_code: string;
+  signed_field_names: string;
+  signature: string;
+}
+
+export interface EsewaStatusResponse {
+  product_code: string;
+  transaction_uuid: string;
+  total_amount: number;
+  status: 'COMPLETE' | 'PENDING' | 'FULL_REFUND' | 'PARTIAL_REFUND' | 'AMBIGUOUS' | 'NOT_FOUND' | 'CANCELED';
+  ref_id: string | null;
+}
+
+/**
+ * HMAC-SHA256 over "name=value" pairs of the signed fields, base64 encoded (ePay v2)
+ */
+export const generateEsewaSignature = (
+  fields: Record<string, unknown>,
+  signedFieldNames: string,
+  secretKey: string
+): string => {
+  const message = signedFieldNames
+    .split(',')
+    .map((name) => `${name}=${fields[name] ?? ''}`)
+    .join(',');
+
+  return crypto.createHmac('sha256', secretKey).update(message).digest('base64');
+};
+
+export const verifyEsewaSignature = (
+  fields: Record<string, unknown>,
+  signedFieldNames: string,
+  signature: string,
+  secretKey: string
+): boolean => {
+  const expected = Buffer.from(generateEsewaSignature(fields, signedFieldNames, secretKey));
+  const actual = Buffer.from(signature || '');
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Decode the base64 JSON payload eSewa appends to the success URL as `data`
+ */
+export const decodeEsewaCallback = (encoded: string): EsewaCallbackPayload => {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64').toString('utf8'));
+  } catch (error) {
+    throw new BadRequestError('Invalid eSewa callback payload');
+  }
+
+  // Valid JSON such as `null` or a bare string is still not a callback
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new BadRequestError('Invalid eSewa callback payload');
+  }
+
+  // The fields the signature check and payment lookup rely on
+  const callback = payload as Record<string, unknown>;
+  const isValid =
+    typeof callback.signed_field_names === 'string' &&
+    typeof callback.signature === 'string' &&
+    typeof callback.transaction_uuid === 'string' &&
+    (typeof callback.total_amount === 'string' || typeof callback.total_amount === 'number');
+
+  if (!isValid) {
+    throw new BadRequestError('Invalid eSewa callback payload');
+  }
+
+  return payload as EsewaCallbackPayload;
+};
+
+export const encodeEsewaCallback = (payload: EsewaCallbackPayload): string => {
+  return Buffer.from(JSON.stringify(payload)).toString('base64');
+};
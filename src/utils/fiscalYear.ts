@@ -0,0 +1,45 @@
+import { NPT_OFFSET_MS } from '@/utils/nepalTime';
+
+/**
+ * Nepal's fiscal year runs from 1 Shrawan to the end of Ashadh (Bikram Sambat),
+ * which falls in mid-July. Shrawan 1 moves between 16 and 17 July, so the
+ * known start dates are listed here; extend the table as the calendar is published.
+ */
+const SHRAWAN_FIRST: Record<number, number> = {
+  // AD year -> day of July
+  2020: 16,
+  2021: 16,
+  2022: 17,
+  2023: 17,
+  2024: 16,
+  2025: 17,
+  2026: 17,
+  2027: 17,
+  2028: 16,
+  2029: 16,
+  2030: 17,
+};
+
+const BS_AD_YEAR_OFFSET = 57;
+
+// Fiscal years turn over at local midnight
+const fiscalYearStart = (adYear: number): Date =>
+  new Date(Date.UTC(adYear, 6, SHRAWAN_FIRST[adYear] || 16) - NPT_OFFSET_MS);
+
+export interface FiscalYear {
+  label: string; // e.g. "2082/83"
+  start: Date;
+  end: Date;     // Exclusive
+}
+
+export const getFiscalYear = (date: Date = new Date()): FiscalYear => {
+  const year = date.getUTCFullYear();
+  const startYear = date >= fiscalYearStart(year) ? year : year - 1;
+  const bsYear = startYear + BS_AD_YEAR_OFFSET;
+
+  return {
+    label: `${bsYear}/${String((bsYear + 1) % 100).padStart(2, '0')}`,
+    start: fiscalYearStart(startYear),
+    end: fiscalYearStart(startYear + 1),
+  };
+};
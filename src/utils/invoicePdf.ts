@@ -0,0 +1,76 @@
+import PDFDocument from 'pdfkit';
+import { Invoice } from '@prisma/client';
+import { formatRupees } from '@/utils/money';
+
+const TITLES: Record<Invoice['type'], string> = {
+  TAX_INVOICE: 'TAX INVOICE',
+  CREDIT_NOTE: 'CREDIT NOTE',
+};
+
+/**
+ * Render an invoice or credit note to an A4 PDF in memory
+ */
+export const renderInvoicePdf = (
+  invoice: Invoice & { originalInvoice?: { invoiceNumber: string } | null }
+): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(18).text(TITLES[invoice.type], { align: 'center' });
+    doc.moveDown();
+
+    doc.fontSize(10);
+    doc.text(invoice.platformName);
+    doc.text(invoice.platformAddress);
+    doc.text(`PAN/VAT No: ${invoice.platformPan || '-'}`);
+    doc.moveDown();
+
+    doc.text(`${invoice.type === 'CREDIT_NOTE' ? 'Credit Note' : 'Invoice'} No: ${invoice.invoiceNumber}`);
+    doc.text(`Fiscal Year: ${invoice.fiscalYear}`);
+    doc.text(`Date: ${invoice.issuedAt.toISOString().slice(0, 10)}`);
+    if (invoice.originalInvoice) {
+      doc.text(`Against Invoice No: ${invoice.originalInvoice.invoiceNumber}`);
+    }
+    doc.text(`Booking Reference: ${invoice.bookingReference}`);
+    doc.moveDown();
+
+    doc.text(`Service provided by: ${invoice.operatorName}`);
+    doc.text(invoice.operatorAddress);
+    doc.text(`PAN/VAT No: ${invoice.operatorPan || '-'}`);
+    doc.moveDown();
+
+    doc.text(`Customer: ${invoice.customerName}`);
+    doc.moveDown();
+
+    doc.text(invoice.description);
+    doc.moveDown();
+
+    const rows: Array<[string, number]> = [];
+    // Supplementary invoices for a booking change carry no fare lines
+    if (invoice.type === 'TAX_INVOICE' && invoice.seatCount > 0) {
+      rows.push([`Base fare (${invoice.seatCount} x Rs. ${formatRupees(invoice.baseFare)})`, invoice.baseFare * invoice.seatCount]);
+      if (invoice.discountAmount > 0) {
+        rows.push(['Discount', -invoice.discountAmount]);
+      }
+      if (invoice.serviceFee > 0) {
+        rows.push(['Service fee', invoice.serviceFee]);
+      }
+    }
+    rows.push(['Taxable amount', invoice.taxableAmount]);
+    rows.push([`VAT (${invoice.vatRate}%)`, invoice.vatAmount]);
+    rows.push(['Total', invoice.totalAmount]);
+
+    for (const [label, amount] of rows) {
+      const y = doc.y;
+      doc.text(label, 50, y, { width: 350 });
+      doc.text(`Rs. ${formatRupees(amount)}`, 400, y, { width: 145, align: 'right' });
+    }
+
+    doc.end();
+  });
+};
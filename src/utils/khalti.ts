@@ -0,0 +1,44 @@
+import { PaymentVerificationStatus } from '@/providers/payment.provider';
+
+export type KhaltiPaymentState =
+  | 'Completed'
+  | 'Pending'
+  | 'Initiated'
+  | 'Refunded'
+  | 'Partially Refunded'
+  | 'Expired'
+  | 'User canceled';
+
+export interface KhaltiInitiateResponse {
+  pidx: string;
+  payment_url: string;
+  expires_at: string;
+  expires_in: number;
+}
+
+export interface KhaltiLookupResponse {
+  pidx: string;
+  total_amount: number; // in paisa
+  status: KhaltiPaymentState;
+  transaction_id: string | null;
+  fee: number;
+  refunded: boolean;
+}
+
+/**
+ * Map a Khalti lookup state onto our payment status
+ */
+export const mapKhaltiStatus = (state: KhaltiPaymentState): PaymentVerificationStatus => {
+  switch (state) {
+    case 'Completed':
+      return 'COMPLETED';
+    case 'Refunded':
+    case 'Partially Refunded':
+      return 'REFUNDED';
+    case 'Expired':
+    case 'User canceled':
+      return 'FAILED';
+    default:
+      return 'PENDING';
+  }
+};
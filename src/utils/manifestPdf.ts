@@ -0,0 +1,88 @@
+import PDFDocument from 'pdfkit';
+
+export interface ManifestDocument {
+  trip: {
+    origin: string;
+    destination: string;
+    departureTime: Date;
+    busNumber: string;
+    busType: string;
+    operatorName: string;
+    licenseNo: string;
+  };
+  generatedAt: Date;
+  passengers: Array<{
+    seatNumber: string;
+    name: string;
+    phone: string;
+    bookingReference: string;
+    boardingStatus: string | null;
+  }>;
+}
+
+const COLUMNS = [
+  { label: 'Seat', x: 40, width: 40 },
+  { label: 'Passenger', x: 85, width: 150 },
+  { label: 'Phone', x: 240, width: 80 },
+  { label: 'Booking', x: 325, width: 140 },
+  { label: 'Boarding', x: 470, width: 85 },
+];
+
+/**
+ * Render a trip's passenger manifest as a printable A4 PDF in memory
+ */
+export const renderManifestPdf = (manifest: ManifestDocument): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 40 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { trip } = manifest;
+
+    doc.fontSize(16).text('PASSENGER MANIFEST', { align: 'center' });
+    doc.moveDown();
+
+    doc.fontSize(10);
+    doc.text(`${trip.operatorName} (Licence ${trip.licenseNo})`);
+    doc.text(`Route: ${trip.origin} - ${trip.destination}`);
+    doc.text(`Departure: ${trip.departureTime.toISOString().replace('T', ' ').slice(0, 16)} UTC`);
+    doc.text(`Bus: ${trip.busNumber} (${trip.busType})`);
+    doc.text(`Passengers: ${manifest.passengers.length}`);
+    doc.text(`Generated: ${manifest.generatedAt.toISOString().replace('T', ' ').slice(0, 16)} UTC`);
+    doc.moveDown();
+
+    const writeRow = (values: string[]) => {
+      if (doc.y > doc.page.height - 60) {
+        doc.addPage();
+      }
+
+      const y = doc.y;
+      let height = 0;
+      values.forEach((value, index) => {
+        const column = COLUMNS[index];
+        doc.text(value, column.x, y, { width: column.width });
+        height = Math.max(height, doc.y - y);
+      });
+      doc.y = y + height + 4;
+    };
+
+    doc.font('Helvetica-Bold');
+    writeRow(COLUMNS.map(column => column.label));
+    doc.font('Helvetica');
+
+    for (const passenger of manifest.passengers) {
+      writeRow([
+        passenger.seatNumber,
+        passenger.name,
+        passenger.phone,
+        passenger.bookingReference,
+        passenger.boardingStatus || '-',
+      ]);
+    }
+
+    doc.end();
+  });
+};
@@ -0,0 +1,73 @@
+import config from '@/config';
+
+/**
+ * All amounts are stored and exchanged as integer paisa (1 rupee = 100 paisa).
+ * Rupees only appear at the edges, e.g. gateways that expect NPR.
+ */
+
+export const toPaisa = (rupees: number): number => Math.round(rupees * 100);
+
+export const toRupees = (paisa: number): number => paisa / 100;
+
+// NPR with two decimals, e.g. 125050 -> "1250.50"
+export const formatRupees = (paisa: number): string => toRupees(paisa).toFixed(2);
+
+// `percent` of an amount, rounded to the nearest paisa
+export const percentOf = (paisa: number, percent: number): number => Math.round((paisa * percent) / 100);
+
+export interface FareBreakdown {
+  baseFare: number;       // Per seat, the trip price when booked
+  seatCount: number;
+  discountAmount: number;
+  serviceFee: number;
+  vatAmount: number;
+  totalAmount: number;
+}
+
+/**
+ * Price a booking: seats at the base fare, less discounts, plus the service fee,
+ * with VAT charged on the resulting taxable amount
+ */
+export const calculateFare = (baseFare: number, seatCount: number, discountAmount: number = 0): FareBreakdown => {
+  const subtotal = baseFare * seatCount;
+  const discount = Math.min(discountAmount, subtotal);
+  const serviceFee = config.fare.serviceFeePerSeat * seatCount;
+  const vatAmount = percentOf(subtotal - discount + serviceFee, config.fare.vatRate);
+
+  return {
+    baseFare,
+    seatCount,
+    discountAmount: discount,
+    serviceFee,
+    vatAmount,
+    totalAmount: subtotal - discount + serviceFee + vatAmount,
+  };
+};
+
+export interface AmountSplit {
+  fareAmount: number;     // The operator's share
+  serviceFee: number;
+  vatAmount: number;
+}
+
+/**
+ * Split an amount paid or refunded on a booking into fare, service fee and VAT
+ * in the booking's proportions; the fare absorbs the rounding
+ */
+export const splitAmount = (
+  amount: number,
+  booking: Pick<FareBreakdown, 'serviceFee' | 'vatAmount' | 'totalAmount'>
+): AmountSplit => {
+  if (booking.totalAmount <= 0) {
+    return { fareAmount: amount, serviceFee: 0, vatAmount: 0 };
+  }
+
+  const serviceFee = Math.round((amount * booking.serviceFee) / booking.totalAmount);
+  const vatAmount = Math.round((amount * booking.vatAmount) / booking.totalAmount);
+
+  return {
+    fareAmount: amount - serviceFee - vatAmount,
+    serviceFee,
+    vatAmount,
+  };
+};
@@ -0,0 +1,16 @@
+// Nepal Standard Time is UTC+05:45 all year round
+export const NPT_OFFSET_MS = (5 * 60 + 45) * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The Nepal calendar day containing `date`, whatever the server's timezone
+ */
+export const getNepalDay = (date: Date = new Date()): { start: Date; end: Date } => {
+  const start = Math.floor((date.getTime() + NPT_OFFSET_MS) / DAY_MS) * DAY_MS - NPT_OFFSET_MS;
+
+  return {
+    start: new Date(start),
+    end: new Date(start + DAY_MS), // Exclusive
+  };
+};
@@ -0,0 +1,55 @@
+import QRCode from 'qrcode';
+import { ETicket } from '@/types';
+import { formatRupees } from '@/utils/money';
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Render an e-ticket as a standalone HTML page with the QR code inlined
+ */
+export const renderTicketHtml = async (ticket: ETicket): Promise<string> => {
+  const qrImage = await QRCode.toDataURL(ticket.qrCode, { errorCorrectionLevel: 'M', margin: 1, width: 220 });
+
+  const passengers = ticket.passengers
+    .map(passenger => `<tr><td>${escapeHtml(passenger.seatNumber)}</td><td>${escapeHtml(passenger.name)}</td><td>${escapeHtml(passenger.phone)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>E-ticket ${escapeHtml(ticket.bookingReference)}</title>
+<style>
+body { font-family: sans-serif; max-width: 480px; margin: 24px auto; padding: 0 16px; }
+table { width: 100%; border-collapse: collapse; }
+td, th { text-align: left; padding: 4px 0; }
+.qr { text-align: center; margin: 24px 0; }
+</style>
+</head>
+<body>
+<h1>E-ticket</h1>
+<p><strong>${escapeHtml(ticket.bookingReference)}</strong></p>
+<h2>${escapeHtml(ticket.trip.origin)} to ${escapeHtml(ticket.trip.destination)}</h2>
+<p>Departure: <time datetime="${ticket.trip.departureTime.toISOString()}">${ticket.trip.departureTime.toISOString()}</time><br>
+Arrival: <time datetime="${ticket.trip.arrivalTime.toISOString()}">${ticket.trip.arrivalTime.toISOString()}</time><br>
+Bus: ${escapeHtml(ticket.trip.busNumber)} (${escapeHtml(ticket.trip.busType)})</p>
+<table>
+<thead><tr><th>Seat</th><th>Passenger</th><th>Phone</th></tr></thead>
+<tbody>${passengers}</tbody>
+</table>
+<p>Fare paid: Rs. ${formatRupees(ticket.totalAmount)}</p>
+<p>Operated by ${escapeHtml(ticket.operator.companyName)}<br>
+${escapeHtml(ticket.operator.address)}<br>
+Contact: ${escapeHtml(ticket.operator.phone)}</p>
+<div class="qr"><img src="${qrImage}" alt="Ticket QR code" width="220" height="220"></div>
+<p>Show this code to the conductor when boarding.</p>
+</body>
+</html>`;
+};
@@ -0,0 +1,51 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { ETicket } from '@/types';
+import { formatRupees } from '@/utils/money';
+
+/**
+ * Render an e-ticket with its QR code to an A5 PDF in memory
+ */
+export const renderTicketPdf = async (ticket: ETicket): Promise<Buffer> => {
+  const qrImage = await QRCode.toBuffer(ticket.qrCode, { errorCorrectionLevel: 'M', margin: 1, width: 220 });
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A5', margin: 40 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(16).text('E-TICKET', { align: 'center' });
+    doc.fontSize(10).text(ticket.bookingReference, { align: 'center' });
+    doc.moveDown();
+
+    doc.fontSize(12).text(`${ticket.trip.origin} to ${ticket.trip.destination}`);
+    doc.fontSize(10);
+    doc.text(`Departure: ${ticket.trip.departureTime.toISOString().replace('T', ' ').slice(0, 16)} UTC`);
+    doc.text(`Arrival: ${ticket.trip.arrivalTime.toISOString().replace('T', ' ').slice(0, 16)} UTC`);
+    doc.text(`Bus: ${ticket.trip.busNumber} (${ticket.trip.busType})`);
+    doc.moveDown();
+
+    doc.text('Passengers');
+    for (const passenger of ticket.passengers) {
+      doc.text(`Seat ${passenger.seatNumber}  ${passenger.name}  ${passenger.phone}`);
+    }
+    doc.moveDown();
+
+    doc.text(`Fare paid: Rs. ${formatRupees(ticket.totalAmount)}`);
+    doc.moveDown();
+
+    doc.text(`Operated by ${ticket.operator.companyName}`);
+    doc.text(ticket.operator.address);
+    doc.text(`Contact: ${ticket.operator.phone}`);
+    doc.moveDown();
+
+    doc.image(qrImage, (doc.page.width - 160) / 2, doc.y, { width: 160 });
+    doc.moveDown();
+    doc.fontSize(8).text('Show this code to the conductor when boarding', 40, doc.y + 165, { align: 'center' });
+
+    doc.end();
+  });
+};
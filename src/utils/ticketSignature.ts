@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import config from '@/config';
+import { BadRequestError, InternalServerError } from '@/utils/errors';
+
+/**
+ * What a ticket's QR code carries. Keys are short to keep the code scannable
+ * from a phone screen.
+ */
+export interface TicketPayload {
+  v: 1;
+  ref: string;     // Booking reference
+  bid: string;     // Booking id
+  tid: string;     // Trip id
+  dep: string;     // Departure, ISO 8601
+  seats: string[];
+  pax: string[];   // Passenger names, in seat order
+  iat: number;     // Issued at, unix seconds
+}
+
+let signingKey: crypto.KeyObject | null = null;
+
+// Ed25519 private key in PKCS#8 PEM; newlines may be escaped as \n in the environment
+const getSigningKey = (): crypto.KeyObject => {
+  if (signingKey) {
+    return signingKey;
+  }
+
+  if (config.ticket.signingKey) {
+    signingKey = crypto.createPrivateKey(config.ticket.signingKey.replace(/\\n/g, '\n'));
+  } else if (config.nodeEnv !== 'production') {
+    // Tickets signed with a throwaway key stop verifying when the process restarts
+    console.warn('[Tickets] TICKET_SIGNING_PRIVATE_KEY is not set; using a temporary key');
+    signingKey = crypto.generateKeyPairSync('ed25519').privateKey;
+  } else {
+    throw new InternalServerError('Ticket signing key is not configured');
+  }
+
+  if (signingKey.asymmetricKeyType !== 'ed25519') {
+    throw new InternalServerError('Ticket signing key must be an Ed25519 key');
+  }
+
+  return signingKey;
+};
+
+/**
+ * The public half of the signing key (SPKI PEM), for conductors' devices to verify tickets offline
+ */
+export const getTicketPublicKey = (): string => {
+  return crypto.createPublicKey(getSigningKey()).export({ type: 'spki', format: 'pem' }).toString();
+};
+
+/**
+ * Encode a ticket as `<base64url JSON payload>.<base64url Ed25519 signature of the first part>`
+ */
+export const signTicket = (payload: TicketPayload): string => {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  const signature = crypto.sign(null, Buffer.from(body), getSigningKey()).toString('base64url');
+
+  return `${body}.${signature}`;
+};
+
+/**
+ * Check a scanned ticket code's signature and return its payload
+ */
+export const verifyTicketCode = (code: string): TicketPayload => {
+  const [body, signature, ...rest] = code.trim().split('.');
+
+  if (!body || !signature || rest.length > 0) {
+    throw new BadRequestError('Malformed ticket code');
+  }
+
+  const publicKey = crypto.createPublicKey(getSigningKey());
+
+  if (!crypto.verify(null, Buffer.from(body), publicKey, Buffer.from(signature, 'base64url'))) {
+    throw new BadRequestError('Invalid ticket signature');
+  }
+
+  try {
+    return JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as TicketPayload;
+  } catch {
+    throw new BadRequestError('Malformed ticket code');
+  }
+};
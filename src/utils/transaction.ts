@@ -0,0 +1,34 @@
+import prisma from '@/config/database';
+import { Prisma } from '@prisma/client';
+
+const SERIALIZATION_FAILURE = 'P2034';
+
+export const isSerializationFailure = (error: unknown): boolean => {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === SERIALIZATION_FAILURE;
+};
+
+export const isUniqueViolation = (error: unknown): boolean => {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+};
+
+/**
+ * Run a callback in a SERIALIZABLE transaction, retrying when Postgres aborts it
+ * because a concurrent transaction touched the same rows.
+ */
+export const runSerializable = async <T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  maxAttempts: number = 3
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+    } catch (error) {
+      if (isSerializationFailure(error) && attempt < maxAttempts) {
+        continue;
+      }
+      throw error;
+    }
+  }
+};
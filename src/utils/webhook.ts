@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import { UnauthorizedError } from '@/utils/errors';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+const sign = (payload: Buffer | string, secret: string, timestamp: number): string => {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(payload)
+    .digest('hex');
+};
+
+/**
+ * Build a `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">` signature header
+ */
+export const generateWebhookSignature = (
+  payload: Buffer | string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string => {
+  return `t=${timestamp},v1=${sign(payload, secret, timestamp)}`;
+};
+
+/**
+ * Check a signature header against the raw body, rejecting deliveries whose
+ * timestamp is outside the tolerance window so captured requests cannot be replayed
+ */
+export const assertWebhookSignature = (
+  payload: Buffer | string,
+  header: string | undefined,
+  secret: string,
+  toleranceSeconds: number,
+  now: number = Date.now()
+): void => {
+  if (!secret) {
+    throw new UnauthorizedError('Webhook secret is not configured');
+  }
+
+  if (!header) {
+    throw new UnauthorizedError('Missing webhook signature');
+  }
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+
+  const timestamp = parseInt(parts.t, 10);
+
+  if (!parts.v1 || Number.isNaN(timestamp)) {
+    throw new UnauthorizedError('Malformed webhook signature');
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    throw new UnauthorizedError('Webhook timestamp is outside the tolerance window');
+  }
+
+  const expected = Buffer.from(sign(payload, secret, timestamp));
+  const actual = Buffer.from(parts.v1);
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new UnauthorizedError('Invalid webhook signature');
+  }
+};
@@ -65,16 +65,39 @@ export const createTripSchema = Joi.object({
   routeId: Joi.string().required(),
   departureTime: Joi.date().iso().required(),
   arrivalTime: Joi.date().iso().required(),
-  price: Joi.number().positive().required(),
+  price: Joi.number().integer().positive().required(),
+});
+
+export const boardingScanSchema = Joi.object({
+  code: Joi.string().max(4000),
+  bookingReference: Joi.string().max(100),
+  seatNumbers: Joi.array().items(Joi.string()).min(1).optional(),
+}).xor('code', 'bookingReference');
+
+export const manifestQuerySchema = Joi.object({
+  format: Joi.string().valid('json', 'csv', 'pdf').optional(),
+});
+
+export const joinWaitlistSchema = Joi.object({
+  seatCount: Joi.number().integer().min(1).required(),
 });
 
 export const updateTripSchema = Joi.object({
   departureTime: Joi.date().iso().optional(),
   arrivalTime: Joi.date().iso().optional(),
-  price: Joi.number().positive().optional(),
+  price: Joi.number().integer().positive().optional(),
   status: Joi.string().valid('SCHEDULED', 'CANCELLED', 'COMPLETED', 'IN_PROGRESS').optional(),
 });
 
+// Seat hold validation schemas
+export const holdSeatsSchema = Joi.object({
+  seatNumbers: Joi.array().items(Joi.string()).min(1).unique().required(),
+});
+
+export const releaseSeatsSchema = Joi.object({
+  seatNumbers: Joi.array().items(Joi.string()).min(1).unique().optional(),
+});
+
 // Booking validation schemas
 export const createBookingSchema = Joi.object({
   tripId: Joi.string().required(),
@@ -86,13 +109,140 @@ export const createBookingSchema = Joi.object({
       seatNumber: Joi.string().required(),
     })
   ).min(1).required(),
+  promoCode: Joi.string().max(50).optional(),
+  redeemPoints: Joi.number().integer().positive().optional(),
+});
+
+export const cancelBookingSchema = Joi.object({
+  refundTo: Joi.string().valid('ORIGINAL_METHOD', 'WALLET').optional(),
+  seatNumbers: Joi.array().items(Joi.string()).min(1).unique().optional(),
+});
+
+export const modifyBookingSchema = Joi.object({
+  tripId: Joi.string().optional(),
+  seatNumbers: Joi.array().items(Joi.string()).min(1).unique().required(),
+  passengerDetails: Joi.array().items(
+    Joi.object({
+      name: Joi.string().min(2).max(50).required(),
+      phone: Joi.string().pattern(/^[0-9]{10}$/).required(),
+      seatNumber: Joi.string().required(),
+    })
+  ).min(1).optional(),
+  refundTo: Joi.string().valid('ORIGINAL_METHOD', 'WALLET').optional(),
+});
+
+// Journey validation schemas
+export const createJourneySchema = Joi.object({
+  type: Joi.string().valid('ROUND_TRIP', 'MULTI_LEG').required(),
+  legs: Joi.array().items(
+    Joi.object({
+      tripId: Joi.string().required(),
+      seatNumbers: Joi.array().items(Joi.string()).min(1).unique().required(),
+      passengerDetails: Joi.array().items(
+        Joi.object({
+          name: Joi.string().min(2).max(50).required(),
+          phone: Joi.string().pattern(/^[0-9]{10}$/).required(),
+          seatNumber: Joi.string().required(),
+        })
+      ).min(1).required(),
+    })
+  ).min(2).required(),
+});
+
+export const cancelJourneySchema = Joi.object({
+  bookingIds: Joi.array().items(Joi.string()).min(1).unique().optional(),
+  refundTo: Joi.string().valid('ORIGINAL_METHOD', 'WALLET').optional(),
+});
+
+// Promo code validation schemas
+export const createPromoCodeSchema = Joi.object({
+  code: Joi.string().alphanum().min(3).max(50).required(),
+  description: Joi.string().max(200).optional(),
+  discountType: Joi.string().valid('PERCENTAGE', 'FLAT').required(),
+  discountValue: Joi.number().integer().positive().required(),
+  maxDiscount: Joi.number().integer().positive().optional(),
+  validFrom: Joi.date().iso().required(),
+  validUntil: Joi.date().iso().required(),
+  usageLimit: Joi.number().integer().min(1).optional(),
+  perUserLimit: Joi.number().integer().min(1).optional(),
+  minSeats: Joi.number().integer().min(1).optional(),
+  routeId: Joi.string().optional(),
+  operatorId: Joi.string().optional(),
+  busType: Joi.string().optional(),
+});
+
+export const updatePromoCodeSchema = Joi.object({
+  description: Joi.string().max(200).optional(),
+  discountValue: Joi.number().integer().positive().optional(),
+  maxDiscount: Joi.number().integer().positive().allow(null).optional(),
+  validFrom: Joi.date().iso().optional(),
+  validUntil: Joi.date().iso().optional(),
+  usageLimit: Joi.number().integer().min(1).allow(null).optional(),
+  perUserLimit: Joi.number().integer().min(1).allow(null).optional(),
+  isActive: Joi.boolean().optional(),
+}).min(1);
+
+export const validatePromoCodeSchema = Joi.object({
+  code: Joi.string().max(50).required(),
+  tripId: Joi.string().required(),
+  seatCount: Joi.number().integer().min(1).required(),
 });
 
 // Payment validation schemas
 export const createPaymentSchema = Joi.object({
   bookingId: Joi.string().required(),
-  method: Joi.string().valid('ESEWA', 'KHALTI', 'CASH').required(),
-  amount: Joi.number().positive().required(),
+  method: Joi.string().valid('ESEWA', 'KHALTI', 'MOCK').required(),
+  amount: Joi.number().integer().positive().required(),
+});
+
+export const walletPaymentSchema = Joi.object({
+  bookingId: Joi.string().required(),
+  amount: Joi.number().integer().positive().required(),
+});
+
+export const cashPaymentSchema = Joi.object({
+  bookingId: Joi.string().required(),
+  amount: Joi.number().integer().positive().required(),
+});
+
+// Walk-in sales are booked under the operator's account, so promo codes and points don't apply
+export const walkInBookingSchema = createBookingSchema
+  .fork(['promoCode', 'redeemPoints'], (schema) => schema.forbidden())
+  .keys({
+    amount: Joi.number().integer().positive().required(),
+  });
+
+// Refund validation schemas
+export const rejectRefundSchema = Joi.object({
+  reason: Joi.string().min(3).max(500).required(),
+});
+
+export const completeRefundSchema = Joi.object({
+  gatewayReference: Joi.string().max(100).optional(),
+});
+
+export const cancellationPolicySchema = Joi.object({
+  tiers: Joi.array().items(
+    Joi.object({
+      hoursBeforeDeparture: Joi.number().min(0).required(),
+      refundPercent: Joi.number().min(0).max(100).required(),
+    })
+  ).min(1).unique('hoursBeforeDeparture').required(),
+});
+
+// Settlement validation schemas
+export const generateSettlementsSchema = Joi.object({
+  periodStart: Joi.date().iso().optional(),
+  periodEnd: Joi.date().iso().optional(),
+  operatorId: Joi.string().optional(),
+});
+
+export const markSettlementPaidSchema = Joi.object({
+  payoutReference: Joi.string().min(3).max(100).required(),
+});
+
+export const commissionRateSchema = Joi.object({
+  commissionRate: Joi.number().min(0).max(100).allow(null).required(),
 });
 
 // Operator profile validation schemas
@@ -119,8 +269,8 @@ export const tripFilterSchema = Joi.object({
   origin: Joi.string().optional(),
   destination: Joi.string().optional(),
   date: Joi.date().iso().optional(),
-  minPrice: Joi.number().positive().optional(),
-  maxPrice: Joi.number().positive().optional(),
+  minPrice: Joi.number().integer().positive().optional(),
+  maxPrice: Joi.number().integer().positive().optional(),
   busType: Joi.string().optional(),
   useContentBased: Joi.boolean().optional(),
 }).concat(paginationSchema);
@@ -130,3 +280,58 @@ export const bookingFilterSchema = Joi.object({
   fromDate: Joi.date().iso().optional(),
   toDate: Joi.date().iso().optional(),
 }).concat(paginationSchema);
+
+export const refundFilterSchema = Joi.object({
+  status: Joi.string().valid('REQUESTED', 'PROCESSING', 'COMPLETED', 'FAILED', 'REJECTED').optional(),
+}).concat(paginationSchema);
+
+export const webhookEventFilterSchema = Joi.object({
+  status: Joi.string().valid('RECEIVED', 'PROCESSED', 'DUPLICATE', 'IGNORED', 'REJECTED', 'FAILED').optional(),
+  method: Joi.string().valid('ESEWA', 'KHALTI', 'CASH', 'MOCK').optional(),
+}).concat(paginationSchema);
+
+export const ticketQuerySchema = Joi.object({
+  format: Joi.string().valid('json', 'html').optional(),
+});
+
+export const loyaltyStatementFilterSchema = Joi.object({
+  type: Joi.string().valid('EARN', 'REDEEM', 'RESTORE', 'EXPIRE').optional(),
+}).concat(paginationSchema);
+
+export const walletTransactionFilterSchema = Joi.object({
+  type: Joi.string().valid('REFUND', 'PAYMENT').optional(),
+}).concat(paginationSchema);
+
+export const reconciliationItemFilterSchema = Joi.object({
+  outcome: Joi.string().valid(
+    'MATCHED', 'AMOUNT_MISMATCH', 'NOT_FOUND', 'FAILED', 'REFUNDED', 'STILL_PENDING', 'ERROR'
+  ).optional(),
+});
+
+export const settlementFilterSchema = Joi.object({
+  status: Joi.string().valid('PENDING', 'PAID').optional(),
+  operatorId: Joi.string().optional(),
+}).concat(paginationSchema);
+
+export const promoCodeFilterSchema = Joi.object({
+  isActive: Joi.boolean().optional(),
+}).concat(paginationSchema);
+
+export const invoiceFilterSchema = Joi.object({
+  type: Joi.string().valid('TAX_INVOICE', 'CREDIT_NOTE').optional(),
+  fiscalYear: Joi.string().pattern(/^\d{4}\/\d{2}$/).optional(),
+  bookingId: Joi.string().optional(),
+}).concat(paginationSchema);
+
+export const taxDetailsSchema = Joi.object({
+  panNumber: Joi.string().pattern(/^\d{9}$/).required(), // Nepali PANs are 9 digits
+});
+
+export const trialBalanceQuerySchema = Joi.object({
+  asOf: Joi.date().iso().optional(),
+});
+
+export const cashDrawerQuerySchema = Joi.object({
+  date: Joi.date().iso().optional(),
+  collectorId: Joi.string().optional(),
+});